@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+// Runs the TypeScript CLI through tsx so it shares the web app's services unbuilt.
+// tsx is therefore a dependency, not a devDependency: production installs need it.
+import { require as tsxRequire } from 'tsx/cjs/api';
+
+tsxRequire('../src/cli/radiodj-report.ts', import.meta.url);
@@ -0,0 +1,42 @@
+-- Minimal RadioDJ schema with a few plays, for trying the history import
+-- against a local MariaDB (see docker-compose.mariadb.yml).
+
+CREATE TABLE IF NOT EXISTS subcategory (
+  ID int(11) NOT NULL AUTO_INCREMENT,
+  parentid int(11) NOT NULL DEFAULT 0,
+  name varchar(100) NOT NULL,
+  PRIMARY KEY (ID)
+) DEFAULT CHARSET=utf8mb4;
+
+CREATE TABLE IF NOT EXISTS history (
+  ID int(11) NOT NULL AUTO_INCREMENT,
+  trackID int(11) NOT NULL DEFAULT 0,
+  date_played datetime NOT NULL,
+  song_type tinyint(2) NOT NULL DEFAULT 0,
+  id_subcat int(11) NOT NULL DEFAULT 0,
+  id_genre int(11) NOT NULL DEFAULT 0,
+  duration double(11,5) NOT NULL DEFAULT 0,
+  artist varchar(250) NOT NULL DEFAULT '',
+  original_artist varchar(250) NOT NULL DEFAULT '',
+  title varchar(250) NOT NULL DEFAULT '',
+  year varchar(4) NOT NULL DEFAULT '',
+  album varchar(250) NOT NULL DEFAULT '',
+  composer varchar(250) NOT NULL DEFAULT '',
+  label varchar(250) NOT NULL DEFAULT '',
+  publisher varchar(250) NOT NULL DEFAULT '',
+  copyright varchar(250) NOT NULL DEFAULT '',
+  isrc varchar(50) NOT NULL DEFAULT '',
+  PRIMARY KEY (ID),
+  KEY date_played (date_played)
+) DEFAULT CHARSET=utf8mb4;
+
+INSERT INTO subcategory (ID, parentid, name) VALUES
+  (1, 1, 'Pop'),
+  (2, 2, 'Station IDs');
+
+INSERT INTO history (date_played, song_type, id_subcat, duration, artist, title, year, album, composer, publisher, copyright) VALUES
+  ('2026-08-31 23:58:10', 0, 1, 201.5, 'Holograf', 'Sa nu-mi iei niciodata dragostea', '1994', 'Holograf', 'Mihai Pocorschi', 'Electrecord', 'Dan Bittman'),
+  ('2026-09-01 00:01:31', 1, 2, 8.2, 'Radio', 'Station ID', '', '', '', '', ''),
+  ('2026-09-01 00:01:40', 0, 1, 245.0, 'Queen', 'Under Pressure', '1981', 'Hot Space', 'Queen', 'EMI', 'David Bowie'),
+  ('2026-09-30 18:20:00', 0, 1, 188.76, 'Phoenix', 'Andrii Popa', '1974', 'Mugur de fluier', 'Nicolae Covaci', 'Electrecord', 'Folclor'),
+  ('2026-10-01 08:00:00', 0, 1, 230.0, 'Queen', 'Bohemian Rhapsody', '1975', 'A Night at the Opera', 'Freddie Mercury', 'EMI', 'Freddie Mercury');
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { ConversionError } from '@/services/conversion-error';
+import { DEFAULT_PROFILE } from '@/services/mapping-profiles';
+import { readConvertOptions } from './conversion-options';
+
+const optionsOf = (values: Record<string, unknown>) =>
+  readConvertOptions(name => (name in values ? JSON.stringify(values[name]) : null));
+
+const rejection = (values: Record<string, unknown>) => {
+  try {
+    optionsOf(values);
+  } catch (error) {
+    return error;
+  }
+  return null;
+};
+
+describe('readConvertOptions', () => {
+  it.each([
+    ['a profile without a name', { profile: { columns: DEFAULT_PROFILE.columns } }],
+    ['a null column', { profile: { name: 'P', columns: [null] } }],
+    ['a column without a source', { profile: { name: 'P', columns: [{ header: 'A', transform: 'none', width: 8 }] } }],
+    ['a column with a text width', { profile: { name: 'P', columns: [{ header: 'A', source: { kind: 'constant', value: '' }, width: '8' }] } }],
+    ['a schedule slot without fields', { schedule: { slots: [{}], overrides: [] } }],
+    ['a special with a numeric date', { schedule: { slots: [], overrides: [{ date: 20240101, start: '06:00', end: '08:00', show: 'S' }] } }],
+    ['an empty catalogue entry', { catalogue: [{}] }],
+    ['a null catalogue entry', { catalogue: [null] }],
+    ['a catalogue entry with a numeric label', { catalogue: [{ artist: 'A', title: 'T', isrc: '', label: 5 }] }],
+  ])('rejects %s as an invalid option', (_, values) => {
+    const error = rejection(values);
+    expect(error).toBeInstanceOf(ConversionError);
+    expect((error as ConversionError).code).toBe('INVALID_OPTION');
+  });
+
+  it('accepts well-formed JSON options', () => {
+    const options = optionsOf({
+      profile: { ...DEFAULT_PROFILE, builtIn: false },
+      schedule: { slots: [{ id: 's', weekday: 1, start: '06:00', end: '10:00', show: 'Matinal' }], overrides: [] },
+      catalogue: [{ id: 't', artist: 'Inna', title: 'Hot', isrc: '', updatedAt: '' }],
+    });
+    expect(options.profile?.name).toBe(DEFAULT_PROFILE.name);
+    expect(options.schedule?.slots).toHaveLength(1);
+    expect(options.catalogue).toHaveLength(1);
+  });
+});
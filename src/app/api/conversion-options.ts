@@ -0,0 +1,125 @@
+import { OUTPUT_FORMATS, type ConvertOptions, type OutputFormat } from '@/services/excel-converter';
+import { ConversionError, type ConversionErrorCode } from '@/services/conversion-error';
+import { parseDateBound } from '@/services/date-range';
+import { DATE_FORMATS, type DateFormat } from '@/services/date-format-detection';
+import { BUILT_IN_PROFILES, validateProfile, type MappingProfile } from '@/services/mapping-profiles';
+import { validateSchedule, type ShowSchedule } from '@/services/show-schedule';
+import type { SheetGrouping } from '@/services/sheet-grouping';
+import { checkTimeZone } from '@/services/station-time';
+import { validateCatalogue, type CatalogueEntry } from '@/services/track-catalogue';
+
+/**
+ * Request option handling shared by the conversion API routes. Options are
+ * read by name from the query string or form fields:
+ * `profile` (built-in id or JSON), `schedule` and `catalogue` (JSON),
+ * `format` (xls, xlsx, ods, csv), `from`/`to` (yyyy-MM-dd),
+ * `fromTime`/`toTime` (HH:mm), `timeZone` (IANA name), `group` (single, day, week, month),
+ * `delimiter`, `quote`, `dateFormat` (d.M.yyyy, d/M/yyyy, M/d/yyyy, yyyy-MM-dd),
+ * `validationSheet=true` and `summarySheet=true`.
+ */
+
+export type OptionReader = (name: string) => string | null;
+
+const STATUS_BY_CODE: Record<ConversionErrorCode, number> = {
+  EMPTY_INPUT: 400,
+  INVALID_OPTION: 400,
+  UNSUPPORTED_FORMAT: 400,
+  MISSING_COLUMNS: 422,
+  AMBIGUOUS_DATE_FORMAT: 422,
+  SOURCE_UNAVAILABLE: 503,
+};
+
+export const errorResponse = (status: number, code: string, message: string) =>
+  Response.json({ error: message, code }, { status });
+
+/** Maps converter errors to a JSON error response; anything else is a 500. */
+export function conversionErrorResponse(error: unknown): Response {
+  if (error instanceof ConversionError) {
+    return errorResponse(STATUS_BY_CODE[error.code], error.code, error.message);
+  }
+  console.error("Conversion API error:", error);
+  return errorResponse(500, 'INTERNAL_ERROR', 'An unexpected error occurred during conversion.');
+}
+
+function parseJsonOption<T>(value: string, name: string): T {
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    throw new ConversionError('INVALID_OPTION', `"${name}" is not valid JSON.`);
+  }
+}
+
+/** A built-in profile id, or a full profile as JSON. */
+function resolveProfile(value: string | null): MappingProfile | undefined {
+  if (!value) return undefined;
+  if (!value.trim().startsWith('{')) {
+    const builtIn = BUILT_IN_PROFILES.find(p => p.id === value);
+    if (!builtIn) throw new ConversionError('INVALID_OPTION', `Unknown profile "${value}".`);
+    return builtIn;
+  }
+  const profile = parseJsonOption<MappingProfile>(value, 'profile');
+  const problems = validateProfile(profile);
+  if (problems.length) throw new ConversionError('INVALID_OPTION', `Invalid profile: ${problems.join(' ')}`);
+  return profile;
+}
+
+function resolveSchedule(value: string | null): ShowSchedule | undefined {
+  if (!value) return undefined;
+  const schedule = parseJsonOption<ShowSchedule>(value, 'schedule');
+  const problems = validateSchedule(schedule);
+  if (problems.length) throw new ConversionError('INVALID_OPTION', `Invalid schedule: ${problems.join(' ')}`);
+  return schedule;
+}
+
+function resolveCatalogue(value: string | null): CatalogueEntry[] | undefined {
+  if (!value) return undefined;
+  const catalogue = parseJsonOption<CatalogueEntry[]>(value, 'catalogue');
+  const problems = validateCatalogue(catalogue);
+  if (problems.length) throw new ConversionError('INVALID_OPTION', `Invalid catalogue: ${problems.join(' ')}`);
+  return catalogue;
+}
+
+/** Reads and checks the conversion options of a request. */
+export function readConvertOptions(option: OptionReader): ConvertOptions & { format: OutputFormat } {
+  const format = (option('format') ?? 'xls') as OutputFormat;
+  if (!Object.hasOwn(OUTPUT_FORMATS, format)) {
+    throw new ConversionError('UNSUPPORTED_FORMAT', `Unsupported output format "${format}".`);
+  }
+  const dateFormat = option('dateFormat') as DateFormat | null;
+  if (dateFormat && !DATE_FORMATS.some(f => f.value === dateFormat)) {
+    throw new ConversionError('INVALID_OPTION', `Unsupported date format "${dateFormat}".`);
+  }
+  const from = option('from');
+  const to = option('to');
+  return {
+    profile: resolveProfile(option('profile')),
+    schedule: resolveSchedule(option('schedule')),
+    catalogue: resolveCatalogue(option('catalogue')),
+    format,
+    grouping: (option('group') ?? undefined) as SheetGrouping | undefined,
+    delimiter: option('delimiter') ?? undefined,
+    quote: option('quote') ?? undefined,
+    dateFormat: dateFormat ?? undefined,
+    includeValidationSheet: option('validationSheet') === 'true',
+    includeSummarySheet: option('summarySheet') === 'true',
+    dateRange: {
+      from: from ? parseDateBound(from, 'from') : undefined,
+      to: to ? parseDateBound(to, 'to') : undefined,
+      fromTime: option('fromTime') ?? undefined,
+      toTime: option('toTime') ?? undefined,
+    },
+    timeZone: option('timeZone') ? checkTimeZone(option('timeZone')!) : undefined,
+  };
+}
+
+/** The report file as a download. */
+export function workbookResponse(data: Buffer, format: OutputFormat, baseName: string): Response {
+  const { extension, mimeType } = OUTPUT_FORMATS[format];
+  return new Response(new Uint8Array(data), {
+    headers: {
+      'Content-Type': mimeType,
+      'Content-Disposition': `attachment; filename="${baseName}.${extension}"`,
+      'Content-Length': String(data.length),
+    },
+  });
+}
@@ -0,0 +1,55 @@
+import { convertCsvToXls } from '@/services/excel-converter';
+import { ConversionError } from '@/services/conversion-error';
+import { CSV_ENCODINGS, decodeCsv, detectEncoding, type CsvEncoding } from '@/services/csv-detection';
+import { safeBaseName } from '@/services/batch-converter';
+import { conversionErrorResponse, errorResponse, readConvertOptions, workbookResponse } from '../conversion-options';
+
+export const runtime = 'nodejs';
+
+/**
+ * Converts a RadioDJ CSV export for scripts on the playout machines.
+ *
+ * Accepts either a multipart form with a `file` field or the raw CSV as the
+ * request body. Options come from the query string or form fields, as
+ * described in `conversion-options.ts`, plus `encoding`. Responds with the
+ * report file, or with `{ error, code }` JSON on failure.
+ */
+export async function POST(request: Request) {
+  try {
+    const url = new URL(request.url);
+    let bytes: Uint8Array;
+    let fileName = 'report.csv';
+    let form: FormData | null = null;
+
+    if ((request.headers.get('content-type') ?? '').startsWith('multipart/form-data')) {
+      form = await request.formData();
+      const file = form.get('file');
+      if (!(file instanceof Blob)) {
+        return errorResponse(400, 'EMPTY_INPUT', 'Multipart requests need a "file" field with the CSV.');
+      }
+      bytes = new Uint8Array(await file.arrayBuffer());
+      if (file instanceof File && file.name) fileName = file.name;
+    } else {
+      bytes = new Uint8Array(await request.arrayBuffer());
+    }
+    if (!bytes.length) return errorResponse(400, 'EMPTY_INPUT', 'The request contained no CSV data.');
+
+    // Form fields win over query parameters
+    const option = (name: string) => {
+      const fromForm = form?.get(name);
+      return typeof fromForm === 'string' ? fromForm : url.searchParams.get(name);
+    };
+
+    const options = readConvertOptions(option);
+    const encodingOption = option('encoding');
+    if (encodingOption && !CSV_ENCODINGS.some(e => e.value === encodingOption)) {
+      throw new ConversionError('INVALID_OPTION', `Unsupported encoding "${encodingOption}".`);
+    }
+    const encoding = (encodingOption as CsvEncoding | null) ?? detectEncoding(bytes).encoding;
+
+    const data = await convertCsvToXls(decodeCsv(bytes, encoding), options);
+    return workbookResponse(data, options.format, safeBaseName(fileName));
+  } catch (error) {
+    return conversionErrorResponse(error);
+  }
+}
@@ -0,0 +1,25 @@
+import { convertHistoryToXls } from '@/services/radiodj-history';
+import { conversionErrorResponse, readConvertOptions, workbookResponse } from '../conversion-options';
+
+export const runtime = 'nodejs';
+
+/**
+ * Converts the plays of a date range straight from the RadioDJ database
+ * configured on the server (see `readHistorySettings`).
+ *
+ * Takes the query options described in `conversion-options.ts`; `from` and
+ * `to` are required. Responds with the report file, or with
+ * `{ error, code }` JSON on failure.
+ */
+export async function GET(request: Request) {
+  try {
+    const url = new URL(request.url);
+    const options = readConvertOptions(name => url.searchParams.get(name));
+    const data = await convertHistoryToXls(options);
+    // Both dates were checked to be yyyy-MM-dd, so they are safe in the file name
+    const period = `${url.searchParams.get('from')}_${url.searchParams.get('to')}`;
+    return workbookResponse(data, options.format, `radiodj_history_${period}`);
+  } catch (error) {
+    return conversionErrorResponse(error);
+  }
+}
@@ -1,42 +1,288 @@
 
 "use client";
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Upload, Download, Loader2 } from 'lucide-react';
-import { convertCsvToXls } from '@/services/excel-converter';
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MappingProfileEditor } from '@/components/mapping-profile-editor';
+import { CsvInputSettings, type CsvDetection, type CsvOverrides } from '@/components/csv-input-settings';
+import { ValidationReport } from '@/components/validation-report';
+import { ReportPreview } from '@/components/report-preview';
+import { StatisticsDashboard } from '@/components/statistics-dashboard';
+import { ShowScheduleEditor } from '@/components/show-schedule-editor';
+import { TrackCatalogueEditor } from '@/components/track-catalogue-editor';
+import { MatchReviewDialog } from '@/components/match-review-dialog';
+import { DateRangeFilter } from '@/components/date-range-filter';
+import { Progress } from "@/components/ui/progress";
+import { Upload, Download, Loader2, X, Copy, Pencil, Plus, Trash2, CalendarClock, Library, GitMerge } from 'lucide-react';
+import { OUTPUT_FORMATS, type OutputFormat, type ReportRow } from '@/services/excel-converter';
+import { describeAmbiguousDates } from '@/services/date-format-detection';
+import { BATCH_MODES, safeBaseName, type BatchMode } from '@/services/batch-converter';
+import {
+  JobCancelledError, type ParseJobResult, type PrepareJobResult, type ReportAnalysis,
+} from '@/services/report-jobs';
+import type { DateRange } from '@/services/date-range';
+import { DEFAULT_TIME_ZONE, STATION_TIME_ZONES } from '@/services/station-time';
+import type { MatchSuggestion } from '@/services/fuzzy-match';
+import { SHEET_GROUPINGS, type SheetGrouping } from '@/services/sheet-grouping';
+import { decodeCsv, detectDialect, detectEncoding } from '@/services/csv-detection';
+import { cloneProfile, createProfile, updateProfile, type MappingProfile } from '@/services/mapping-profiles';
+import { useMappingProfiles } from '@/hooks/use-mapping-profiles';
+import { useShowSchedule } from '@/hooks/use-show-schedule';
+import { useTrackCatalogue } from '@/hooks/use-track-catalogue';
+import { useMatchDecisions } from '@/hooks/use-match-decisions';
+import { useReportWorker } from '@/hooks/use-report-worker';
 import { useToast } from '@/hooks/use-toast';
 
+interface LoadedFile {
+  /** The file's name, numbered when several loaded files share it. */
+  name: string;
+  bytes: Uint8Array;
+  detection: CsvDetection;
+}
+
+const isCsvFile = (file: File) => file.type === 'text/csv' || /\.csv$/i.test(file.name);
+
+/** Names each file after its own, numbered as in "export (2).csv" when several share one. */
+function uniqueFileNames(files: File[]): string[] {
+  const used = new Set<string>();
+  return files.map(({ name }) => {
+    const dot = name.lastIndexOf('.');
+    const [stem, extension] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+    let candidate = name;
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) candidate = `${stem} (${n})${extension}`;
+    used.add(candidate.toLowerCase());
+    return candidate;
+  });
+}
+
+function readFileBytes(file: File): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve(new Uint8Array(e.target?.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(file);
+  });
+}
+
 export default function Home() {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [loadedFiles, setLoadedFiles] = useState<LoadedFile[]>([]);
+  const [isDragging, setIsDragging] = useState<boolean>(false);
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
-  const [downloadFilename, setDownloadFilename] = useState<string>('converted_data.xls');
+  const [download, setDownload] = useState<{ url: string; filename: string; label: string } | null>(null);
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>('xls');
+  const [batchMode, setBatchMode] = useState<BatchMode>('merge');
+  const [grouping, setGrouping] = useState<SheetGrouping>('single');
+  const [csvOverrides, setCsvOverrides] = useState<CsvOverrides>({});
+  const [includeValidationSheet, setIncludeValidationSheet] = useState<boolean>(false);
+  const [includeSummarySheet, setIncludeSummarySheet] = useState<boolean>(false);
+  const [dateRange, setDateRange] = useState<DateRange>({});
+  const [timeZone, setTimeZone] = useState<string>(DEFAULT_TIME_ZONE);
+  const [editingProfile, setEditingProfile] = useState<MappingProfile | null>(null);
+  const { profiles, selectedProfile, selectProfile, saveProfile, deleteProfile } = useMappingProfiles();
+  const { schedule, saveSchedule } = useShowSchedule();
+  const [isEditingSchedule, setIsEditingSchedule] = useState<boolean>(false);
+  const { catalogue, saveCatalogue } = useTrackCatalogue();
+  const [isEditingCatalogue, setIsEditingCatalogue] = useState<boolean>(false);
+  const { decisions, saveDecisions } = useMatchDecisions();
+  const [isReviewingMatches, setIsReviewingMatches] = useState<boolean>(false);
+  // One worker per step, so a later step starting does not cancel an earlier one still running
+  const { run: runParse, cancel: cancelParse, progress: parseProgress } = useReportWorker();
+  const { run: runPrepare, cancel: cancelPrepare, progress: prepareProgress } = useReportWorker();
+  const { run: runAnalysis, cancel: cancelAnalysis, progress: analysisProgress } = useReportWorker();
+  const { run: runWrite, cancel: cancelWrite, progress: writeProgress } = useReportWorker();
   const { toast } = useToast();
 
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file && file.type === 'text/csv') {
-      setSelectedFile(file);
-      setDownloadUrl(null);
-      // Attempt to create a safe filename, replace non-alphanumeric with underscore
-      const safeBaseName = file.name.replace(/\.csv$/i, '').replace(/[^a-z0-9]/gi, '_');
-      setDownloadFilename(`${safeBaseName}.xls`);
-    } else {
-      setSelectedFile(null);
-      event.target.value = ''; // Clear the input if the file is invalid
+  // Decoded text and effective dialect per file, overrides applying to all files
+  const csvInputs = useMemo(() => loadedFiles.map(({ name, bytes, detection }) => ({
+    name,
+    csvData: decodeCsv(bytes, csvOverrides.encoding ?? detection.encoding),
+    delimiter: csvOverrides.delimiter ?? detection.delimiter,
+    quote: csvOverrides.quote ?? detection.quote,
+  })), [loadedFiles, csvOverrides]);
+
+  // Parse in the worker up front so problems are visible before downloading: dates detected,
+  // plays placed in the station's time zone, airtime measured and durations rounded as the
+  // profile asks, and only the reporting period kept; exports often overlap month boundaries
+  const [parsed, setParsed] = useState<ParseJobResult | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  useEffect(() => {
+    setParsed(null);
+    setParseError(null);
+    if (!csvInputs.length) {
+      cancelParse();
+      return;
+    }
+    runParse({
+      kind: 'parse',
+      inputs: csvInputs,
+      dateFormat: csvOverrides.dateFormat,
+      timeZone,
+      durationRounding: selectedProfile.durationRounding,
+      durationSource: selectedProfile.durationSource,
+      dateRange,
+    }).then(setParsed, error => {
+      if (!(error instanceof JobCancelledError)) setParseError(error.message || "An error occurred while reading the CSV data.");
+    });
+  }, [csvInputs, csvOverrides.dateFormat, timeZone, selectedProfile.durationRounding, selectedProfile.durationSource, dateRange, runParse, cancelParse]);
+  const inRange = parsed?.rows ?? null;
+
+  // A file written with other settings is out of date
+  useEffect(() => {
+    setDownload(null);
+  }, [selectedProfile, csvOverrides, outputFormat, batchMode, grouping, includeValidationSheet, includeSummarySheet, dateRange, timeZone]);
+
+  // Each file is released once replaced, cleared or the page is left
+  useEffect(() => {
+    if (!download) return;
+    return () => URL.revokeObjectURL(download.url);
+  }, [download]);
+  const dateFormats = useMemo(() => Object.fromEntries(csvInputs.map(({ name }, i) => (
+    [name, csvOverrides.dateFormat ?? parsed?.dates[i]?.format ?? undefined]
+  ))), [csvInputs, csvOverrides.dateFormat, parsed]);
+
+  // Files whose dates read equally well day or month first, until a date format is chosen
+  const undecidedDates = csvOverrides.dateFormat || !parsed
+    ? []
+    : csvInputs
+      .map(({ name }, i) => ({ name, dates: parsed.dates[i] }))
+      .filter(({ dates }) => dates && !dates.format && dates.candidates.length);
+
+  // Files that could not be parsed at all, other than for undecided dates explained above
+  const readError = parseError
+    ?? (parsed?.error && parsed.error.code !== 'AMBIGUOUS_DATE_FORMAT' ? parsed.error.message : null);
+  useEffect(() => {
+    if (readError) {
+      toast({
+        variant: "destructive",
+        title: "Invalid CSV",
+        description: readError,
+      });
+    }
+  }, [readError, toast]);
+
+  // Failures of the later steps, which only unexpected errors cause
+  const reportJobError = useCallback((error: any) => {
+    if (error instanceof JobCancelledError) return;
+    toast({
+      variant: "destructive",
+      title: "Preparing the Report Failed",
+      description: error.message || "An error occurred while preparing the report.",
+    });
+  }, [toast]);
+
+  // Split author credits, fill in catalogue metadata, performers and show names,
+  // then drop jingles, ads and the like according to the profile's rules
+  const [prepared, setPrepared] = useState<PrepareJobResult | null>(null);
+  useEffect(() => {
+    setPrepared(null);
+    if (!inRange) {
+      cancelPrepare();
+      return;
+    }
+    runPrepare({ kind: 'prepare', rows: inRange, profile: selectedProfile, catalogue, decisions, schedule })
+      .then(setPrepared, reportJobError);
+  }, [inRange, selectedProfile, catalogue, decisions, schedule, runPrepare, cancelPrepare, reportJobError]);
+
+  // Edits made in the preview; discarded whenever the files, parse settings or filters change
+  const [editedRows, setEditedRows] = useState<ReportRow[] | null>(null);
+  useEffect(() => setEditedRows(null), [prepared]);
+  const rows = editedRows ?? prepared?.kept ?? null;
+
+  // Validation and statistics come with the prepared rows, and are redone after edits;
+  // the previous results stay up until the new ones arrive
+  const [reanalysed, setReanalysed] = useState<ReportAnalysis | null>(null);
+  useEffect(() => {
+    if (!editedRows) {
+      cancelAnalysis();
+      setReanalysed(null);
+      return;
+    }
+    runAnalysis({ kind: 'analyse', rows: editedRows, decisions }).then(setReanalysed, reportJobError);
+  }, [editedRows, decisions, runAnalysis, cancelAnalysis, reportJobError]);
+  const analysis = editedRows ? reanalysed ?? prepared : prepared;
+
+  // Spelling variants matched too loosely to catalogue entries or to each other, one per variant
+  const uncertainMatches = useMemo(() => {
+    const suggestions = new Map<string, MatchSuggestion>();
+    const found = [...prepared?.catalogueSuggestions ?? [], ...analysis?.variantSuggestions ?? []];
+    for (const suggestion of found) {
+      if (!suggestions.has(suggestion.variant.key)) suggestions.set(suggestion.variant.key, suggestion);
+    }
+    return Array.from(suggestions.values());
+  }, [prepared, analysis]);
+
+  // The step still running, the latest first
+  const activeJob = [
+    { progress: writeProgress, cancel: cancelWrite },
+    { progress: analysisProgress, cancel: cancelAnalysis },
+    { progress: prepareProgress, cancel: cancelPrepare },
+    { progress: parseProgress, cancel: cancelParse },
+  ].find(job => job.progress);
+
+  const handleSaveProfile = (draft: MappingProfile) => {
+    const existing = profiles.find(p => p.id === draft.id);
+    const saved = existing ? updateProfile(existing, draft) : draft;
+    if (!saveProfile(saved)) return;
+    selectProfile(saved.id);
+    setEditingProfile(null);
+    toast({
+      title: "Profile Saved",
+      description: `"${saved.name}" (version ${saved.version}) is now selected.`,
+    });
+  };
+
+  const handleFiles = async (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []);
+    const csvFiles = files.filter(isCsvFile);
+    if (csvFiles.length < files.length || !csvFiles.length) {
       toast({
         variant: "destructive",
         title: "Invalid File Type",
-        description: "Please upload a valid CSV file.",
+        description: csvFiles.length
+          ? `Skipped ${files.length - csvFiles.length} file(s) that are not CSV.`
+          : "Please upload a valid CSV file.",
+      });
+    }
+    if (!csvFiles.length) return;
+
+    setDownload(null);
+    setCsvOverrides({});
+    try {
+      // Read raw bytes so the encoding can be detected instead of assumed
+      const names = uniqueFileNames(csvFiles);
+      const loaded = await Promise.all(csvFiles.map(async (file, i) => {
+        const bytes = await readFileBytes(file);
+        const encoding = detectEncoding(bytes);
+        return { name: names[i], bytes, detection: { ...encoding, ...detectDialect(decodeCsv(bytes, encoding.encoding)) } };
+      }));
+      setLoadedFiles(loaded);
+    } catch (error) {
+      console.error("File reading error:", error);
+      setLoadedFiles([]);
+      toast({
+        variant: "destructive",
+        title: "File Reading Error",
+        description: "Could not read the selected file(s).",
       });
     }
   };
 
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    handleFiles(event.target.files);
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    handleFiles(event.dataTransfer.files);
+  };
+
   const handleConvert = useCallback(async () => {
-    if (!selectedFile) {
+    if (!loadedFiles.length || !rows) {
       toast({
         variant: "destructive",
         title: "No File Selected",
@@ -46,111 +292,371 @@ export default function Home() {
     }
 
     setIsLoading(true);
-    setDownloadUrl(null);
+    setDownload(null);
 
     try {
-      const reader = new FileReader();
-      reader.onload = async (event) => {
-        const csvData = event.target?.result as string;
-        if (!csvData) {
-           throw new Error("Failed to read file content.");
-        }
-        try {
-          const xlsBuffer = await convertCsvToXls(csvData);
-          const blob = new Blob([xlsBuffer], { type: 'application/vnd.ms-excel' });
-          const url = URL.createObjectURL(blob);
-          setDownloadUrl(url);
-          toast({
-            title: "Conversion Successful",
-            description: "Your XLS file is ready for download.",
-          });
-        } catch (convertError: any) {
-           console.error("Conversion error:", convertError);
-           toast({
-             variant: "destructive",
-             title: "Conversion Failed",
-             description: convertError.message || "An error occurred during conversion.",
-           });
-        } finally {
-          setIsLoading(false);
-        }
+      const options = {
+        profile: selectedProfile,
+        format: outputFormat,
+        grouping,
+        includeValidationSheet,
+        includeSummarySheet,
+        delimiter: csvInputs[0].delimiter,
+        // The summary sheet groups spelling variants like the dashboard
+        decisions,
       };
-      reader.onerror = (error) => {
-         console.error("File reading error:", error);
-         toast({
-           variant: "destructive",
-           title: "File Reading Error",
-           description: "Could not read the selected file.",
-         });
-         setIsLoading(false);
-      }
-      reader.readAsText(selectedFile); // Read as text for CSV parsing
-
-    } catch (error: any) {
-      console.error("Error during conversion process:", error);
+      const format = OUTPUT_FORMATS[outputFormat];
+      const inputs = loadedFiles.length === 1
+        ? [{ name: loadedFiles[0].name, rows }]
+        // Rows added in the preview with nothing to go by belong to the first file
+        : loadedFiles.map(({ name }, i) => ({
+          name,
+          rows: rows.filter(r => r.sourceFile === name || (i === 0 && !r.sourceFile)),
+        }));
+      const output = await runWrite({ kind: 'write', inputs, mode: batchMode, options });
+      const baseName = loadedFiles.length === 1 ? safeBaseName(loadedFiles[0].name) : 'radiodj_report';
+      const blob = new Blob([output.data], { type: output.mimeType });
+      const url = URL.createObjectURL(blob);
+      const label = output.extension === 'zip' ? 'ZIP' : format.label;
+      setDownload({ url, filename: `${baseName}.${output.extension}`, label });
+      toast({
+        title: "Conversion Successful",
+        description: `Your ${label} file is ready for download.`,
+      });
+    } catch (convertError: any) {
+      if (convertError instanceof JobCancelledError) return;
+      console.error("Conversion error:", convertError);
       toast({
         variant: "destructive",
-        title: "Conversion Error",
-        description: error.message || "An unexpected error occurred.",
+        title: "Conversion Failed",
+        description: convertError.message || "An error occurred during conversion.",
       });
+    } finally {
       setIsLoading(false);
     }
-  }, [selectedFile, toast]);
+  }, [loadedFiles, csvInputs, rows, selectedProfile, outputFormat, grouping, batchMode, includeValidationSheet, includeSummarySheet, decisions, runWrite, toast]);
 
   return (
     <main className="flex min-h-screen flex-col items-center justify-center p-6 bg-background text-foreground">
       <Card className="w-full max-w-md shadow-lg shadow-[0_0_25px_3px_rgba(64,64,64,0.4)] rounded-xl">
         <CardHeader className="text-center">
           <CardTitle className="text-2xl font-bold">RadioDJ CSV to Report XLS</CardTitle>
-          <CardDescription>Upload your CSV file to convert it into XLS format.</CardDescription>
+          <CardDescription>Upload your CSV files to convert them into XLS, XLSX, ODS or CSV format.</CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
-          <div className="space-y-2">
+          <div
+            className={`space-y-2 rounded-lg ${isDragging ? 'ring-2 ring-primary ring-offset-4 ring-offset-background' : ''}`}
+            onDragOver={e => { e.preventDefault(); setIsDragging(true); }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+          >
             <label htmlFor="csv-upload" className="block text-sm font-medium text-foreground/80">
-              Upload CSV File
+              Upload CSV Files (or drop them here)
             </label>
             <div className="flex items-center space-x-2">
                <Input
                  id="csv-upload"
                  type="file"
                  accept=".csv"
+                 multiple
                  onChange={handleFileChange}
                  className="flex-grow text-center file:mx-auto file:py-1 file:px-2 file:rounded-md file:border-0 file:text-xs file:font-semibold file:bg-primary/10 file:text-primary hover:file:bg-primary/20"
                />
                <Upload className="h-5 w-5 text-muted-foreground" />
             </div>
-             {selectedFile && (
+             {loadedFiles.length === 1 && (
                 <p className="text-sm text-muted-foreground pt-1 text-center">
-                  Selected: {selectedFile.name}
+                  Selected: {loadedFiles[0].name}
                 </p>
             )}
+            {loadedFiles.length > 1 && (
+              <ul className="text-xs text-muted-foreground pt-1 max-h-32 overflow-y-auto">
+                {loadedFiles.map(({ name, detection }, i) => (
+                  <li key={name} className="flex justify-between">
+                    <span className="truncate">{name}</span>
+                    <span className="ml-2 shrink-0">
+                      {detection.encoding}, {detection.delimiter === '\t' ? 'tab' : detection.delimiter}
+                      {parsed?.dates[i]?.format && `, ${parsed.dates[i]!.format}`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {loadedFiles.length > 0 && (
+              <CsvInputSettings
+                detection={loadedFiles.length === 1 ? loadedFiles[0].detection : undefined}
+                dates={loadedFiles.length === 1 ? parsed?.dates[0] : undefined}
+                overrides={csvOverrides}
+                onChange={setCsvOverrides}
+              />
+            )}
+            {readError && <p className="text-sm text-destructive">{readError}</p>}
+            {undecidedDates.map(({ name, dates }) => (
+              <p key={name} className="text-sm text-destructive">
+                {loadedFiles.length > 1 && `${name}: `}{describeAmbiguousDates(dates!)}
+              </p>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-foreground/80">
+              Reporting Period
+            </label>
+            <DateRangeFilter value={dateRange} onChange={setDateRange} />
+          </div>
+
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-foreground/80">
+              Station Time Zone
+            </label>
+            <Select value={timeZone} onValueChange={setTimeZone}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STATION_TIME_ZONES.map(zone => <SelectItem key={zone} value={zone}>{zone}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {parsed && inRange && inRange.length < parsed.parsedCount && (
+            <p className="text-sm text-muted-foreground text-center">
+              {parsed.parsedCount - inRange.length} of {parsed.parsedCount} rows fall outside the reporting period.
+            </p>
+          )}
+          {prepared && prepared.droppedCount > 0 && (
+            <p className="text-sm text-muted-foreground text-center">
+              {prepared.droppedCount} of {inRange?.length} rows excluded by the profile&apos;s filter rules.
+            </p>
+          )}
+          {rows && analysis && <ValidationReport issues={analysis.issues} rowCount={rows.length} />}
+
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-foreground/80">
+              Mapping Profile
+            </label>
+            <div className="flex items-center space-x-1">
+              <Select value={selectedProfile.id} onValueChange={selectProfile}>
+                <SelectTrigger className="flex-grow">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {profiles.map(p => (
+                    <SelectItem key={p.id} value={p.id}>
+                      {p.name} (v{p.version})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="ghost" size="icon" aria-label="New profile"
+                onClick={() => setEditingProfile(createProfile('New profile'))}>
+                <Plus className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" aria-label="Clone profile"
+                onClick={() => setEditingProfile(cloneProfile(selectedProfile))}>
+                <Copy className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" aria-label="Edit profile"
+                disabled={selectedProfile.builtIn}
+                onClick={() => setEditingProfile(selectedProfile)}>
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" aria-label="Delete profile"
+                disabled={selectedProfile.builtIn}
+                onClick={() => deleteProfile(selectedProfile.id)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <Button variant="outline" size="sm" className="w-full" onClick={() => setIsEditingSchedule(true)}>
+              <CalendarClock className="mr-2 h-4 w-4" />
+              Show Schedule ({schedule.slots.length} slots, {schedule.overrides.length} specials)
+            </Button>
+            <Button variant="outline" size="sm" className="w-full" onClick={() => setIsEditingCatalogue(true)}>
+              <Library className="mr-2 h-4 w-4" />
+              Track Catalogue ({catalogue.length} tracks)
+            </Button>
+            <Button variant="outline" size="sm" className="w-full" disabled={!uncertainMatches.length && !decisions.length}
+              onClick={() => setIsReviewingMatches(true)}>
+              <GitMerge className="mr-2 h-4 w-4" />
+              Review Track Matches ({uncertainMatches.length} uncertain)
+            </Button>
           </div>
 
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-foreground/80">
+              Output Format
+            </label>
+            <Select value={outputFormat} onValueChange={v => setOutputFormat(v as OutputFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(OUTPUT_FORMATS) as OutputFormat[]).map(f => (
+                  <SelectItem key={f} value={f}>
+                    {OUTPUT_FORMATS[f].label} (.{OUTPUT_FORMATS[f].extension})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center space-x-2 pt-1">
+              <Checkbox
+                id="validation-sheet"
+                checked={includeValidationSheet}
+                disabled={outputFormat === 'csv'}
+                onCheckedChange={v => setIncludeValidationSheet(v === true)}
+              />
+              <label htmlFor="validation-sheet" className="text-sm text-foreground/80">
+                Add validation issues as an extra sheet
+              </label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="summary-sheet"
+                checked={includeSummarySheet}
+                disabled={outputFormat === 'csv'}
+                onCheckedChange={v => setIncludeSummarySheet(v === true)}
+              />
+              <label htmlFor="summary-sheet" className="text-sm text-foreground/80">
+                Add a SUMAR sheet with totals and statistics
+              </label>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-foreground/80">
+              Worksheets
+            </label>
+            <Select value={grouping} onValueChange={v => setGrouping(v as SheetGrouping)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SHEET_GROUPINGS.map(g => (
+                  <SelectItem key={g.value} value={g.value} disabled={g.value !== 'single' && outputFormat === 'csv'}>
+                    {g.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {loadedFiles.length > 1 && (
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-foreground/80">
+                Multiple Files
+              </label>
+              <Select value={batchMode} onValueChange={v => setBatchMode(v as BatchMode)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BATCH_MODES.map(m => (
+                    <SelectItem key={m.value} value={m.value} disabled={m.value === 'sheets' && outputFormat === 'csv'}>
+                      {m.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           <Button
             onClick={handleConvert}
-            disabled={!selectedFile || isLoading}
+            disabled={!loadedFiles.length || !rows || isLoading}
             className="w-full bg-primary hover:bg-primary/90 text-primary-foreground rounded-lg shadow-md"
           >
             {isLoading ? (
               <Loader2 className="mr-2 h-4 w-4 animate-spin" />
             ) : null}
-            {isLoading ? 'Converting...' : 'Convert to XLS'}
+            {isLoading ? 'Converting...' : `Convert to ${OUTPUT_FORMATS[outputFormat].label}`}
           </Button>
 
-          {downloadUrl && (
+          {activeJob?.progress && (
+            <div className="space-y-1">
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span className="truncate">{activeJob.progress.stage}…</span>
+                <Button variant="ghost" size="sm" className="h-6 px-2" onClick={activeJob.cancel}>
+                  <X className="mr-1 h-3 w-3" /> Cancel
+                </Button>
+              </div>
+              <Progress value={activeJob.progress.percent} className="h-2" />
+            </div>
+          )}
+
+          {download && (
             <div className="text-center">
               <a
-                href={downloadUrl}
-                download={downloadFilename}
+                href={download.url}
+                download={download.filename}
                 className="inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-lg text-primary-foreground bg-primary hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary shadow-md"
               >
                 <Download className="mr-2 h-4 w-4" />
-                Download XLS File
+                Download {download.label} File
               </a>
             </div>
           )}
         </CardContent>
       </Card>
+      {rows && (
+        <Card className="mt-6 w-full max-w-6xl shadow-lg rounded-xl">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="text-lg">Report Preview</CardTitle>
+              <CardDescription>Click a cell to edit it. Changes are included in the downloaded file.</CardDescription>
+            </div>
+            {editedRows && (
+              <Button variant="outline" size="sm" onClick={() => setEditedRows(null)}>
+                Discard edits
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent>
+            <ReportPreview
+              rows={rows}
+              profile={selectedProfile}
+              timeZone={timeZone}
+              dateFormats={dateFormats}
+              onRowsChange={next => { setEditedRows(next); setDownload(null); }}
+            />
+          </CardContent>
+        </Card>
+      )}
+      {rows && analysis && (
+        <Card className="mt-6 w-full max-w-6xl shadow-lg rounded-xl">
+          <CardHeader>
+            <CardTitle className="text-lg">Statistics</CardTitle>
+            <CardDescription>Computed from the rows above, including your edits.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <StatisticsDashboard stats={analysis.statistics} summary={analysis.summary} />
+          </CardContent>
+        </Card>
+      )}
+      <ShowScheduleEditor
+        open={isEditingSchedule}
+        schedule={schedule}
+        onCancel={() => setIsEditingSchedule(false)}
+        onSave={next => { if (saveSchedule(next)) setIsEditingSchedule(false); }}
+      />
+      <TrackCatalogueEditor
+        open={isEditingCatalogue}
+        catalogue={catalogue}
+        rows={inRange}
+        onCancel={() => setIsEditingCatalogue(false)}
+        onSave={next => { if (saveCatalogue(next)) setIsEditingCatalogue(false); }}
+      />
+      <MatchReviewDialog
+        open={isReviewingMatches}
+        suggestions={uncertainMatches}
+        decisions={decisions}
+        onClose={() => setIsReviewingMatches(false)}
+        onDecisionsChange={saveDecisions}
+      />
+      <MappingProfileEditor
+        profile={editingProfile}
+        onCancel={() => setEditingProfile(null)}
+        onSave={handleSaveProfile}
+      />
        <div className="mt-8 text-center text-xs text-muted-foreground opacity-70">
         <p>made by Bogdan Turlacu</p>
       </div>
@@ -0,0 +1,328 @@
+import { existsSync, readdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { basename, extname, join } from 'path';
+import { parseArgs } from 'util';
+import {
+  OUTPUT_FORMATS, convertReportRows, prepareReportRows, processReportRows,
+  type ConvertOptions, type OutputFormat, type ReportRow,
+} from '../services/excel-converter';
+import { BATCH_MODES, convertBatch, safeBaseName, type BatchMode } from '../services/batch-converter';
+import { ConversionError, type ConversionErrorCode } from '../services/conversion-error';
+import { CSV_ENCODINGS, decodeCsv, detectEncoding, detectDialect, type CsvEncoding } from '../services/csv-detection';
+import { parseDateBound } from '../services/date-range';
+import { DATE_FORMATS, type DateFormat, type DateFormatDetection } from '../services/date-format-detection';
+import { fetchHistoryRows } from '../services/radiodj-history';
+import { BUILT_IN_PROFILES, validateProfile, type MappingProfile } from '../services/mapping-profiles';
+import { summarizeIssues, validateReportRows } from '../services/report-validation';
+import { SHEET_GROUPINGS, type SheetGrouping } from '../services/sheet-grouping';
+import { DEFAULT_TIME_ZONE, checkTimeZone } from '../services/station-time';
+import { validateSchedule, type ShowSchedule } from '../services/show-schedule';
+import { validateCatalogue, type CatalogueEntry } from '../services/track-catalogue';
+import { escapeRegExp } from '../services/text-utils';
+
+/**
+ * Headless converter for the studio PC and cron jobs, built on the same
+ * services as the web app.
+ *
+ *   radiodj-report convert input.csv -o report.xls --profile default --from 2026-09-01 --to 2026-09-30
+ *   radiodj-report history --from 2026-09-01 --to 2026-09-30 -o report.xls
+ *
+ * Exit codes: 0 on success, 1 when an input cannot be converted (empty file,
+ * missing columns, database unreachable), 2 for invalid arguments.
+ */
+
+const EXIT_FATAL = 1;
+const EXIT_USAGE = 2;
+
+/** Converter errors caused by the input data rather than by the arguments. */
+const FATAL_CODES: ConversionErrorCode[] = ['EMPTY_INPUT', 'MISSING_COLUMNS', 'SOURCE_UNAVAILABLE'];
+
+/** Issues listed individually on stderr before the rest are only counted. */
+const MAX_LISTED_ISSUES = 20;
+
+const USAGE = `Usage: radiodj-report convert <input.csv|glob>... [options]
+       radiodj-report history --from <yyyy-MM-dd> --to <yyyy-MM-dd> [options]
+
+The history command reads the RadioDJ database set by the environment variables
+RADIODJ_DB_HOST, RADIODJ_DB_PORT, RADIODJ_DB_USER, RADIODJ_DB_PASSWORD and RADIODJ_DB_NAME.
+
+Options:
+  -o, --output <file>      Output file (default: named after the input)
+  -f, --format <format>    ${Object.keys(OUTPUT_FORMATS).join(', ')} (default: from the output extension, else xls)
+  -p, --profile <profile>  Built-in profile id (${BUILT_IN_PROFILES.map(p => p.id).join(', ')}) or a profile JSON file
+  -m, --mode <mode>        convert: how several inputs are combined: ${BATCH_MODES.map(m => m.value).join(', ')} (default: merge)
+  -g, --group <grouping>   Worksheets: ${SHEET_GROUPINGS.map(g => g.value).join(', ')} (default: single)
+      --schedule <file>    Show schedule JSON file used to fill in show names
+      --catalogue <file>   Track catalogue JSON file used to fill in catalogue metadata
+      --from <yyyy-MM-dd>  First day to report
+      --to <yyyy-MM-dd>    Last day to report
+      --from-time <HH:mm>  Start of the daily time window
+      --to-time <HH:mm>    End of the daily time window (exclusive; may be past midnight)
+      --timezone <zone>    Station time zone the plays were logged in (default: ${DEFAULT_TIME_ZONE})
+      --encoding <name>    convert: input encoding: ${CSV_ENCODINGS.map(e => e.value).join(', ')} (default: detected)
+      --delimiter <char>   convert: input field delimiter (default: detected); history: CSV output delimiter
+      --quote <char>       convert: input quote character (default: detected)
+      --date-format <fmt>  convert: input date format: ${DATE_FORMATS.map(f => f.value).join(', ')} (default: detected)
+      --validation-sheet   Append a sheet listing validation issues
+      --summary-sheet      Append the SUMAR statistics sheet
+  -h, --help               Show this help
+`;
+
+class UsageError extends Error {}
+
+/**
+ * Expands `*`, `?` and `**` in a path pattern, for shells (and cron on
+ * Windows) that pass globs through unexpanded. Patterns without wildcards are
+ * returned as-is so a missing file is reported by name.
+ */
+export function expandGlob(pattern: string): string[] {
+  if (!/[*?]/.test(pattern)) return [pattern];
+  const segments = pattern.replace(/\\/g, '/').split('/');
+  const root = segments[0] === '' ? '/' : segments[0].endsWith(':') ? `${segments[0]}/` : '.';
+  const start = root === '.' ? segments : segments.slice(1);
+
+  const walk = (dir: string, rest: string[]): string[] => {
+    if (!rest.length) return existsSync(dir) && statSync(dir).isFile() ? [dir] : [];
+    const [segment, ...tail] = rest;
+    if (!existsSync(dir) || !statSync(dir).isDirectory()) return [];
+    if (segment === '**') {
+      const deeper = readdirSync(dir, { withFileTypes: true })
+        .filter(e => e.isDirectory())
+        .flatMap(e => walk(join(dir, e.name), rest));
+      return [...walk(dir, tail), ...deeper];
+    }
+    if (!/[*?]/.test(segment)) return walk(join(dir, segment), tail);
+    const matcher = new RegExp(`^${escapeRegExp(segment).replace(/\\\*/g, '.*').replace(/\\\?/g, '.')}$`);
+    return readdirSync(dir)
+      .filter(name => matcher.test(name))
+      .flatMap(name => walk(join(dir, name), tail));
+  };
+
+  return Array.from(new Set(walk(root, start))).sort();
+}
+
+function readJsonFile<T>(path: string, what: string): T {
+  try {
+    return JSON.parse(readFileSync(path, 'utf8')) as T;
+  } catch (error: any) {
+    throw new UsageError(`Cannot read ${what} "${path}": ${error.message}`);
+  }
+}
+
+function loadProfile(value: string | undefined): MappingProfile | undefined {
+  if (!value) return undefined;
+  const builtIn = BUILT_IN_PROFILES.find(p => p.id === value);
+  if (builtIn) return builtIn;
+  if (!existsSync(value)) throw new UsageError(`Unknown profile "${value}"; pass a built-in id or a JSON file.`);
+  const profile = readJsonFile<MappingProfile>(value, 'profile');
+  const problems = validateProfile(profile);
+  if (problems.length) throw new UsageError(`Invalid profile "${value}": ${problems.join(' ')}`);
+  return profile;
+}
+
+function loadSchedule(path: string | undefined): ShowSchedule | undefined {
+  if (!path) return undefined;
+  const schedule = readJsonFile<ShowSchedule>(path, 'schedule');
+  const problems = validateSchedule(schedule);
+  if (problems.length) throw new UsageError(`Invalid schedule "${path}": ${problems.join(' ')}`);
+  return schedule;
+}
+
+function loadCatalogue(path: string | undefined): CatalogueEntry[] | undefined {
+  if (!path) return undefined;
+  const catalogue = readJsonFile<CatalogueEntry[]>(path, 'catalogue');
+  const problems = validateCatalogue(catalogue);
+  if (problems.length) throw new UsageError(`Invalid catalogue "${path}": ${problems.join(' ')}`);
+  return catalogue;
+}
+
+function resolveFormat(format: string | undefined, output: string | undefined): OutputFormat {
+  if (format) {
+    if (!(format in OUTPUT_FORMATS)) throw new UsageError(`Unsupported output format "${format}".`);
+    return format as OutputFormat;
+  }
+  const extension = output ? extname(output).slice(1).toLowerCase() : '';
+  return extension in OUTPUT_FORMATS ? (extension as OutputFormat) : 'xls';
+}
+
+/** Prints the validation summary, listing the first issues. */
+function reportIssues(rows: ReportRow[]) {
+  const issues = validateReportRows(rows);
+  const counts = summarizeIssues(issues);
+  console.error(`Validation: ${counts.error} error(s), ${counts.warning} warning(s) in ${rows.length} row(s).`);
+  for (const issue of issues.slice(0, MAX_LISTED_ISSUES)) {
+    const where = issue.file ? `${issue.file}:${issue.row}` : `row ${issue.row}`;
+    console.error(`  ${issue.severity.toUpperCase()} ${where} [${issue.code}] ${issue.message}`);
+  }
+  if (issues.length > MAX_LISTED_ISSUES) console.error(`  … and ${issues.length - MAX_LISTED_ISSUES} more.`);
+}
+
+/** Options of both commands. */
+const REPORT_OPTIONS = {
+  output: { type: 'string', short: 'o' },
+  format: { type: 'string', short: 'f' },
+  profile: { type: 'string', short: 'p' },
+  group: { type: 'string', short: 'g' },
+  schedule: { type: 'string' },
+  catalogue: { type: 'string' },
+  from: { type: 'string' },
+  to: { type: 'string' },
+  'from-time': { type: 'string' },
+  'to-time': { type: 'string' },
+  timezone: { type: 'string' },
+  delimiter: { type: 'string' },
+  'validation-sheet': { type: 'boolean' },
+  'summary-sheet': { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+type ReportValues = ReturnType<typeof parseArgs<{ options: typeof REPORT_OPTIONS }>>['values'];
+
+/** Conversion options shared by both commands, checked up front. */
+function reportOptions(values: ReportValues): ConvertOptions & { format: OutputFormat } {
+  const grouping = (values.group ?? 'single') as SheetGrouping;
+  if (!SHEET_GROUPINGS.some(g => g.value === grouping)) throw new UsageError(`Unknown grouping "${grouping}".`);
+  return {
+    profile: loadProfile(values.profile),
+    schedule: loadSchedule(values.schedule),
+    catalogue: loadCatalogue(values.catalogue),
+    format: resolveFormat(values.format, values.output),
+    grouping,
+    includeValidationSheet: values['validation-sheet'],
+    includeSummarySheet: values['summary-sheet'],
+    dateRange: {
+      from: values.from ? parseDateBound(values.from, 'from') : undefined,
+      to: values.to ? parseDateBound(values.to, 'to') : undefined,
+      fromTime: values['from-time'],
+      toTime: values['to-time'],
+    },
+    timeZone: values.timezone ? checkTimeZone(values.timezone) : undefined,
+  };
+}
+
+function writeOutput(path: string, data: Buffer) {
+  writeFileSync(path, data);
+  console.error(`Wrote ${path}.`);
+}
+
+function convert(args: string[]): number {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      ...REPORT_OPTIONS,
+      mode: { type: 'string', short: 'm' },
+      encoding: { type: 'string' },
+      quote: { type: 'string' },
+      'date-format': { type: 'string' },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const inputs = positionals.flatMap(expandGlob);
+  if (!inputs.length) throw new UsageError('No input files matched.');
+  const missing = inputs.filter(i => !existsSync(i));
+  if (missing.length) throw new UsageError(`Input not found: ${missing.join(', ')}`);
+
+  const mode = (values.mode ?? 'merge') as BatchMode;
+  if (!BATCH_MODES.some(m => m.value === mode)) throw new UsageError(`Unknown mode "${mode}".`);
+  if (values.encoding && !CSV_ENCODINGS.some(e => e.value === values.encoding)) {
+    throw new UsageError(`Unsupported encoding "${values.encoding}".`);
+  }
+  const dateFormat = values['date-format'] as DateFormat | undefined;
+  if (dateFormat && !DATE_FORMATS.some(f => f.value === dateFormat)) {
+    throw new UsageError(`Unsupported date format "${dateFormat}".`);
+  }
+
+  const options = { ...reportOptions(values), quote: values.quote };
+
+  let delimiter = values.delimiter;
+  const batch = inputs.map(input => {
+    const bytes = readFileSync(input);
+    const csvData = decodeCsv(bytes, (values.encoding as CsvEncoding | undefined) ?? detectEncoding(bytes).encoding);
+    // CSV output keeps the first input's delimiter, as in the web app
+    delimiter = delimiter ?? detectDialect(csvData).delimiter;
+    let rows: ReportRow[];
+    let dates = undefined as DateFormatDetection | undefined;
+    try {
+      rows = prepareReportRows(csvData, {
+        ...options,
+        delimiter: values.delimiter,
+        dateFormat,
+        sourceFile: inputs.length > 1 ? basename(input) : undefined,
+        onDateFormat: detection => { dates = detection; },
+      });
+    } catch (error) {
+      // An ambiguous date format is fixed with --date-format, so it names the file but stays a usage error
+      if (error instanceof ConversionError && (FATAL_CODES.includes(error.code) || error.code === 'AMBIGUOUS_DATE_FORMAT')) {
+        throw new ConversionError(error.code, `${input}: ${error.message}`);
+      }
+      throw error;
+    }
+    const readAs = dateFormat ?? dates?.format;
+    console.error(`${input}: ${rows.length} row(s) to report${readAs ? `, dates read as ${readAs}` : ''}.`);
+    return { name: basename(input), rows };
+  });
+  reportIssues(batch.flatMap(b => b.rows));
+
+  let data: Buffer;
+  let extension = OUTPUT_FORMATS[options.format].extension;
+  if (batch.length === 1) {
+    data = convertReportRows(batch[0].rows, { ...options, delimiter });
+  } else {
+    const output = convertBatch(batch, mode, { ...options, delimiter });
+    data = output.data;
+    extension = output.extension;
+  }
+  const outputPath = values.output ?? `${batch.length === 1 ? safeBaseName(batch[0].name) : 'radiodj-report'}.${extension}`;
+  writeOutput(outputPath, data);
+  return 0;
+}
+
+async function history(args: string[]): Promise<number> {
+  const { values } = parseArgs({ args, options: REPORT_OPTIONS });
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (!values.from || !values.to) throw new UsageError('The history command needs --from and --to.');
+
+  const options = reportOptions(values);
+  const rows = processReportRows(await fetchHistoryRows(options.dateRange ?? {}), options);
+  console.error(`RadioDJ history: ${rows.length} row(s) to report.`);
+  if (!rows.length) throw new ConversionError('EMPTY_INPUT', 'The RadioDJ history has no plays in the date range.');
+  reportIssues(rows);
+
+  const data = convertReportRows(rows, { ...options, delimiter: values.delimiter ?? ';' });
+  writeOutput(values.output ?? `radiodj-history_${values.from}_${values.to}.${OUTPUT_FORMATS[options.format].extension}`, data);
+  return 0;
+}
+
+export async function main(argv: string[]): Promise<number> {
+  const [command, ...args] = argv;
+  try {
+    if (command === 'convert') return convert(args);
+    if (command === 'history') return await history(args);
+    if (!command || command === 'help' || command === '--help' || command === '-h') {
+      console.log(USAGE);
+      return command ? 0 : EXIT_USAGE;
+    }
+    throw new UsageError(`Unknown command "${command}".`);
+  } catch (error: any) {
+    if (error instanceof ConversionError && FATAL_CODES.includes(error.code)) {
+      console.error(`Error: ${error.message}`);
+      return EXIT_FATAL;
+    }
+    // parseArgs rejects unknown or malformed options with ERR_PARSE_ARGS_* codes
+    if (error instanceof UsageError || error instanceof ConversionError || String(error?.code).startsWith('ERR_PARSE_ARGS')) {
+      console.error(`Error: ${error.message}\n\n${USAGE}`);
+      return EXIT_USAGE;
+    }
+    console.error(error);
+    return EXIT_FATAL;
+  }
+}
+
+main(process.argv.slice(2)).then(code => { process.exitCode = code; });
@@ -0,0 +1,197 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  IMPORT_FIELDS, applyCatalogueImport, diffCatalogue, entriesFromTable, guessColumnMapping, readImportTable,
+  type CatalogueChange, type ColumnMapping, type ImportField, type ImportTable,
+} from '@/services/catalogue-import';
+import type { CatalogueEntry } from '@/services/track-catalogue';
+
+const UNMAPPED = '__unmapped__';
+
+/** Changes listed per section; the counts always cover the whole import. */
+const MAX_LISTED = 50;
+
+interface CatalogueImportDialogProps {
+  open: boolean;
+  catalogue: CatalogueEntry[];
+  onCancel: () => void;
+  onImport: (catalogue: CatalogueEntry[]) => void;
+}
+
+const trackName = (entry: CatalogueEntry) => [entry.artist, entry.title].filter(Boolean).join(' – ') || entry.isrc;
+
+function ChangeList({ title, changes, children }: {
+  title: string;
+  changes: CatalogueChange[];
+  children: (change: CatalogueChange) => React.ReactNode;
+}) {
+  if (!changes.length) return null;
+  return (
+    <div className="space-y-1">
+      <h4 className="text-sm font-medium">{title} ({changes.length})</h4>
+      <ul className="space-y-1 text-xs">
+        {changes.slice(0, MAX_LISTED).map(change => <li key={change.existing.id}>{children(change)}</li>)}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Imports track metadata from a spreadsheet or tag export. The columns are
+ * mapped to catalogue fields and the resulting changes are previewed; the
+ * catalogue is only changed once the import is confirmed.
+ */
+export function CatalogueImportDialog({ open, catalogue, onCancel, onImport }: CatalogueImportDialogProps) {
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [overwrite, setOverwrite] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setFileName('');
+      setTable(null);
+      setMapping({});
+      setOverwrite([]);
+      setError(null);
+    }
+  }, [open]);
+
+  const canImport = mapping.title !== undefined || mapping.isrc !== undefined;
+  const diff = useMemo(
+    () => (table && canImport ? diffCatalogue(catalogue, entriesFromTable(table, mapping)) : null),
+    [table, mapping, catalogue, canImport]
+  );
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const read = readImportTable(new Uint8Array(await file.arrayBuffer()), file.name);
+      if (!read.headers.length) throw new Error('The file has no header row.');
+      setFileName(file.name);
+      setTable(read);
+      setMapping(guessColumnMapping(read.headers));
+      setOverwrite([]);
+      setError(null);
+    } catch (err) {
+      setTable(null);
+      setError(`Could not read ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const mapField = (field: ImportField, value: string) => {
+    const next = { ...mapping };
+    if (value === UNMAPPED) delete next[field];
+    else next[field] = Number(value);
+    setMapping(next);
+  };
+
+  const toggleOverwrite = (id: string, checked: boolean) =>
+    setOverwrite(checked ? [...overwrite, id] : overwrite.filter(o => o !== id));
+
+  const changeCount = diff ? diff.added.length + diff.updated.length + overwrite.length : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={o => { if (!o) onCancel(); }}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Import Track Metadata</DialogTitle>
+          <DialogDescription>
+            Reads the first sheet of an XLSX, XLS or ODS file, or a CSV/TSV tag export. Blank catalogue fields are
+            filled in; differing values are only replaced for the tracks you tick.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input type="file" accept=".xlsx,.xlsm,.xls,.ods,.csv,.tsv,.txt" onChange={handleFile} />
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {table && (
+          <ScrollArea className="h-[55vh] pr-3">
+            <div className="space-y-6">
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium text-foreground/80">
+                  Columns of {fileName} ({table.rows.length} rows)
+                </h3>
+                <div className="grid grid-cols-2 gap-x-4 gap-y-2 md:grid-cols-3">
+                  {IMPORT_FIELDS.map(({ field, label }) => (
+                    <div key={field} className="space-y-1">
+                      <Label className="text-xs text-muted-foreground">{label}</Label>
+                      <Select value={mapping[field]?.toString() ?? UNMAPPED} onValueChange={v => mapField(field, v)}>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNMAPPED}>Not imported</SelectItem>
+                          {table.headers.map((header, i) => (
+                            <SelectItem key={i} value={String(i)}>{header || `Column ${i + 1}`}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+                {!canImport && (
+                  <p className="text-sm text-destructive">Map the title or ISRC column to match tracks.</p>
+                )}
+              </div>
+
+              {diff && (
+                <div className="space-y-4">
+                  <p className="text-sm">
+                    {diff.added.length} new, {diff.updated.length} updated, {diff.conflicts.length} conflicting,
+                    {' '}{diff.unchanged} unchanged.
+                  </p>
+                  {diff.added.length > 0 && (
+                    <div className="space-y-1">
+                      <h4 className="text-sm font-medium">New ({diff.added.length})</h4>
+                      <ul className="space-y-1 text-xs">
+                        {diff.added.slice(0, MAX_LISTED).map(entry => <li key={entry.id}>{trackName(entry)}</li>)}
+                      </ul>
+                    </div>
+                  )}
+                  <ChangeList title="Updated" changes={diff.updated}>
+                    {({ existing, filled }) => (
+                      <>{trackName(existing)}: <span className="text-muted-foreground">adds {filled.join(', ')}</span></>
+                    )}
+                  </ChangeList>
+                  <ChangeList title="Conflicting" changes={diff.conflicts}>
+                    {({ existing, incoming, conflicting }) => (
+                      <div className="flex items-start space-x-2">
+                        <Checkbox
+                          id={`overwrite-${existing.id}`}
+                          checked={overwrite.includes(existing.id)}
+                          onCheckedChange={checked => toggleOverwrite(existing.id, checked === true)}
+                        />
+                        <Label htmlFor={`overwrite-${existing.id}`} className="text-xs font-normal">
+                          {trackName(existing)}:{' '}
+                          {conflicting.map(f => `${f} "${existing[f]}" → "${incoming[f]}"`).join(', ')}
+                        </Label>
+                      </div>
+                    )}
+                  </ChangeList>
+                </div>
+              )}
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button disabled={!diff || !changeCount} onClick={() => diff && onImport(applyCatalogueImport(catalogue, diff, overwrite))}>
+            Import ({changeCount} changes)
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,76 @@
+"use client";
+
+import React from 'react';
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  CREDIT_LAYOUTS, UNSPLIT_CREDITS,
+  type CreditLayout, type CreditRules, type UnsplitCredit,
+} from '@/services/author-credits';
+
+interface CreditRulesEditorProps {
+  rules: CreditRules;
+  onChange: (rules: CreditRules) => void;
+}
+
+// Blank lines are kept while typing and ignored when the rules are applied
+const toLines = (text: string) => text.split('\n');
+
+function WordList({ id, label, words, onChange }: {
+  id: string;
+  label: string;
+  words: string[];
+  onChange: (words: string[]) => void;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id}>{label}</Label>
+      <Textarea id={id} rows={6} value={words.join('\n')} onChange={e => onChange(toLines(e.target.value))} />
+    </div>
+  );
+}
+
+/** How the "AUTOR MUZICA" and "AUTOR TEXT" columns are read from RadioDJ's credit fields. */
+export function CreditRulesEditor({ rules, onChange }: CreditRulesEditorProps) {
+  const combined = rules.layout === 'combined';
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-muted-foreground">
+        Combined credits are split at a marker followed by a colon (&quot;muzica: … text: …&quot;), otherwise at the
+        first separator. Authors still missing are taken from the track catalogue.
+      </p>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label>Credit fields</Label>
+          <Select value={rules.layout} onValueChange={v => onChange({ ...rules, layout: v as CreditLayout })}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {CREDIT_LAYOUTS.map(l => <SelectItem key={l.value} value={l.value}>{l.label}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>A single name is the</Label>
+          <Select value={rules.unsplit} disabled={!combined}
+            onValueChange={v => onChange({ ...rules, unsplit: v as UnsplitCredit })}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {UNSPLIT_CREDITS.map(u => <SelectItem key={u.value} value={u.value}>{u.label}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      {combined && (
+        <div className="grid grid-cols-3 gap-4">
+          <WordList id="credit-separators" label="Separators (one per line)" words={rules.separators}
+            onChange={separators => onChange({ ...rules, separators })} />
+          <WordList id="music-markers" label="Music markers" words={rules.musicMarkers}
+            onChange={musicMarkers => onChange({ ...rules, musicMarkers })} />
+          <WordList id="lyrics-markers" label="Lyrics markers" words={rules.lyricsMarkers}
+            onChange={lyricsMarkers => onChange({ ...rules, lyricsMarkers })} />
+        </div>
+      )}
+    </div>
+  );
+}
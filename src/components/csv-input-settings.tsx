@@ -0,0 +1,97 @@
+"use client";
+
+import React from 'react';
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  CSV_DELIMITERS, CSV_ENCODINGS, CSV_QUOTES,
+  type CsvDialect, type CsvEncoding, type EncodingDetection,
+} from '@/services/csv-detection';
+import { DATE_FORMATS, dateFormatLabel, type DateFormat, type DateFormatDetection } from '@/services/date-format-detection';
+
+const AUTO = 'auto';
+const PER_FILE = 'per file';
+
+export type CsvDetection = EncodingDetection & CsvDialect;
+
+/** User overrides; `undefined` means "use the detected value". */
+export interface CsvOverrides {
+  encoding?: CsvEncoding;
+  delimiter?: string;
+  quote?: string;
+  dateFormat?: DateFormat;
+}
+
+interface CsvInputSettingsProps {
+  /** Detected values to show; omitted when several files are detected separately. */
+  detection?: CsvDetection;
+  /** Date format detected from the whole date column; omitted like `detection`. */
+  dates?: DateFormatDetection;
+  overrides: CsvOverrides;
+  onChange: (overrides: CsvOverrides) => void;
+}
+
+const labelOf = (options: { value: string; label: string }[], value: string) =>
+  options.find(o => o.value === value)?.label ?? value;
+
+const datesLabel = (dates: DateFormatDetection) =>
+  dates.format ? dateFormatLabel(dates.format) : dates.candidates.length ? 'undecided' : 'none found';
+
+/** Shows the detected encoding, dialect and date format of the selected file with per-setting overrides. */
+export function CsvInputSettings({ detection, dates, overrides, onChange }: CsvInputSettingsProps) {
+  const settings: {
+    key: keyof CsvOverrides;
+    label: string;
+    options: { value: string; label: string }[];
+    detected: string;
+  }[] = [
+    {
+      key: 'encoding',
+      label: 'Encoding',
+      options: CSV_ENCODINGS,
+      detected: detection
+        ? labelOf(CSV_ENCODINGS, detection.encoding) + (detection.bom ? ' with BOM' : '')
+        : PER_FILE,
+    },
+    {
+      key: 'delimiter',
+      label: 'Delimiter',
+      options: CSV_DELIMITERS,
+      detected: detection ? labelOf(CSV_DELIMITERS, detection.delimiter) : PER_FILE,
+    },
+    {
+      key: 'quote',
+      label: 'Quote',
+      options: CSV_QUOTES,
+      detected: detection ? labelOf(CSV_QUOTES, detection.quote) : PER_FILE,
+    },
+    {
+      key: 'dateFormat',
+      label: 'Dates',
+      options: DATE_FORMATS,
+      detected: dates ? datesLabel(dates) : PER_FILE,
+    },
+  ];
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {settings.map(({ key, label, options, detected }) => (
+        <div key={key} className="space-y-1">
+          <Label className="text-xs text-foreground/80">{label}</Label>
+          <Select
+            value={overrides[key] ?? AUTO}
+            onValueChange={v => onChange({ ...overrides, [key]: v === AUTO ? undefined : v })}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AUTO}>Auto: {detected}</SelectItem>
+              {options.map(o => <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import React from 'react';
+import { format } from 'date-fns';
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { CalendarIcon, X } from 'lucide-react';
+import type { DateRange } from '@/services/date-range';
+
+interface DateRangeFilterProps {
+  value: DateRange;
+  onChange: (range: DateRange) => void;
+}
+
+function describeRange({ from, to }: DateRange): string {
+  if (!from && !to) return 'All dates';
+  const day = (date: Date) => format(date, 'yyyy-MM-dd');
+  if (from && to) return `${day(from)} – ${day(to)}`;
+  return from ? `From ${day(from)}` : `Until ${day(to!)}`;
+}
+
+/** Reporting period picker with an optional time-of-day window. */
+export function DateRangeFilter({ value, onChange }: DateRangeFilterProps) {
+  const isSet = !!(value.from || value.to || value.fromTime || value.toTime);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-1">
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" className="flex-grow justify-start font-normal">
+              <CalendarIcon className="mr-2 h-4 w-4" />
+              {describeRange(value)}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="range"
+              numberOfMonths={2}
+              defaultMonth={value.from}
+              selected={value.from ? { from: value.from, to: value.to } : undefined}
+              onSelect={range => onChange({ ...value, from: range?.from, to: range?.to })}
+            />
+          </PopoverContent>
+        </Popover>
+        <Button variant="ghost" size="icon" aria-label="Clear reporting period" disabled={!isSet}
+          onClick={() => onChange({})}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="from-time" className="text-xs text-muted-foreground">Daily from</Label>
+          <Input id="from-time" type="time" value={value.fromTime ?? ''}
+            onChange={e => onChange({ ...value, fromTime: e.target.value || undefined })} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="to-time" className="text-xs text-muted-foreground">Daily until</Label>
+          <Input id="to-time" type="time" value={value.toTime ?? ''}
+            onChange={e => onChange({ ...value, toTime: e.target.value || undefined })} />
+        </div>
+      </div>
+    </div>
+  );
+}
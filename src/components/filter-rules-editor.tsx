@@ -0,0 +1,88 @@
+"use client";
+
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  FILTER_FIELDS, FILTER_OPERATORS, createFilterRule,
+  type FilterAction, type FilterField, type FilterOperator, type FilterRule,
+} from '@/services/row-filters';
+
+interface FilterRulesEditorProps {
+  rules: FilterRule[];
+  onChange: (rules: FilterRule[]) => void;
+}
+
+/** Editable list of include/exclude rules for a mapping profile. */
+export function FilterRulesEditor({ rules, onChange }: FilterRulesEditorProps) {
+  const updateRule = (index: number, changes: Partial<FilterRule>) =>
+    onChange(rules.map((r, i) => (i === index ? { ...r, ...changes } : r)));
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        When any include rule is enabled, only matching rows are kept. Rows matching an exclude rule are always dropped.
+      </p>
+      {rules.map((rule, i) => {
+        const operators = FILTER_OPERATORS.filter(o => rule.field !== 'duration' || o.numeric);
+        return (
+          <div key={rule.id} className="grid grid-cols-[auto_1fr_1.2fr_1.2fr_2fr_auto] gap-2 items-center">
+            <Switch
+              checked={rule.enabled}
+              onCheckedChange={enabled => updateRule(i, { enabled })}
+              aria-label="Rule enabled"
+            />
+            <Select value={rule.action} onValueChange={v => updateRule(i, { action: v as FilterAction })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="include">Include</SelectItem>
+                <SelectItem value="exclude">Exclude</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select
+              value={rule.field}
+              onValueChange={v => {
+                const field = v as FilterField;
+                // Duration only supports numeric comparisons
+                const operator = field === 'duration' && !FILTER_OPERATORS.find(o => o.value === rule.operator)?.numeric
+                  ? 'lessThan'
+                  : rule.operator;
+                updateRule(i, { field, operator });
+              }}
+            >
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {FILTER_FIELDS.map(f => <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Select value={rule.operator} onValueChange={v => updateRule(i, { operator: v as FilterOperator })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {operators.map(o => <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Input
+              value={rule.value}
+              type={rule.field === 'duration' ? 'number' : 'text'}
+              onChange={e => updateRule(i, { value: e.target.value })}
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange(rules.filter((_, j) => j !== i))}
+              aria-label="Remove rule"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        );
+      })}
+      <Button variant="outline" size="sm" onClick={() => onChange([...rules, createFilterRule()])}>
+        <Plus className="mr-2 h-4 w-4" /> Add rule
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FilterRulesEditor } from '@/components/filter-rules-editor';
+import { PerformerRulesEditor } from '@/components/performer-rules-editor';
+import { CreditRulesEditor } from '@/components/credit-rules-editor';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import {
+  COLUMN_TRANSFORMS, REPORT_FIELDS, validateProfile,
+  type ColumnSpec, type ColumnTransform, type MappingProfile, type ReportField,
+} from '@/services/mapping-profiles';
+import { DEFAULT_PERFORMER_RULES } from '@/services/performers';
+import { DEFAULT_CREDIT_RULES } from '@/services/author-credits';
+import {
+  DEFAULT_DURATION_ROUNDING, DEFAULT_DURATION_SOURCE, DURATION_ROUNDINGS, DURATION_SOURCES,
+  type DurationRounding, type DurationSource,
+} from '@/services/durations';
+
+const CONSTANT_SOURCE = '__constant__';
+
+interface MappingProfileEditorProps {
+  /** Profile being edited; `null` closes the dialog. */
+  profile: MappingProfile | null;
+  onCancel: () => void;
+  onSave: (profile: MappingProfile) => void;
+}
+
+export function MappingProfileEditor({ profile, onCancel, onSave }: MappingProfileEditorProps) {
+  const [draft, setDraft] = useState<MappingProfile | null>(profile);
+  const [problems, setProblems] = useState<string[]>([]);
+
+  useEffect(() => {
+    setDraft(profile);
+    setProblems([]);
+  }, [profile]);
+
+  if (!draft) return null;
+
+  const setColumns = (columns: ColumnSpec[]) => setDraft({ ...draft, columns });
+  const updateColumn = (index: number, changes: Partial<ColumnSpec>) =>
+    setColumns(draft.columns.map((c, i) => (i === index ? { ...c, ...changes } : c)));
+  const moveColumn = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= draft.columns.length) return;
+    const columns = [...draft.columns];
+    [columns[index], columns[target]] = [columns[target], columns[index]];
+    setColumns(columns);
+  };
+
+  const handleSave = () => {
+    const found = validateProfile(draft);
+    setProblems(found);
+    if (!found.length) onSave(draft);
+  };
+
+  return (
+    <Dialog open onOpenChange={open => { if (!open) onCancel(); }}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Edit Mapping Profile</DialogTitle>
+          <DialogDescription>
+            Define the report columns, their source field or constant value, and how they are formatted,
+            plus the rules deciding which rows are reported, how performers are counted and how author credits are split.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="profile-name">Profile name</Label>
+            <Input id="profile-name" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} />
+          </div>
+          <div className="space-y-2">
+            <Label>Fractions of a second in durations</Label>
+            <Select
+              value={draft.durationRounding ?? DEFAULT_DURATION_ROUNDING}
+              onValueChange={v => setDraft({ ...draft, durationRounding: v as DurationRounding })}
+            >
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {DURATION_ROUNDINGS.map(r => <SelectItem key={r.value} value={r.value}>{r.label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Reported duration</Label>
+            <Select
+              value={draft.durationSource ?? DEFAULT_DURATION_SOURCE}
+              onValueChange={v => setDraft({ ...draft, durationSource: v as DurationSource })}
+            >
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {DURATION_SOURCES.map(s => <SelectItem key={s.value} value={s.value}>{s.label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <Tabs defaultValue="columns">
+          <TabsList>
+            <TabsTrigger value="columns">Columns</TabsTrigger>
+            <TabsTrigger value="filters">Filters</TabsTrigger>
+            <TabsTrigger value="performers">Performers</TabsTrigger>
+            <TabsTrigger value="credits">Credits</TabsTrigger>
+          </TabsList>
+          <TabsContent value="columns">
+            <ScrollArea className="h-[50vh] pr-3">
+              <div className="space-y-2">
+                <div className="grid grid-cols-[2fr_1.5fr_1fr_1fr_0.6fr_0.8fr_auto] gap-2 text-xs font-medium text-muted-foreground">
+                  <span>Header</span><span>Source</span><span>Constant</span><span>Transform</span>
+                  <span>Width</span><span>Format</span><span />
+                </div>
+                {draft.columns.map((col, i) => (
+                  <div key={i} className="grid grid-cols-[2fr_1.5fr_1fr_1fr_0.6fr_0.8fr_auto] gap-2 items-center">
+                    <Input value={col.header} onChange={e => updateColumn(i, { header: e.target.value })} />
+                    <Select
+                      value={col.source.kind === 'field' ? col.source.field : CONSTANT_SOURCE}
+                      onValueChange={v => updateColumn(i, {
+                        source: v === CONSTANT_SOURCE ? { kind: 'constant', value: '' } : { kind: 'field', field: v as ReportField },
+                      })}
+                    >
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {REPORT_FIELDS.map(f => <SelectItem key={f.field} value={f.field}>{f.label}</SelectItem>)}
+                        <SelectItem value={CONSTANT_SOURCE}>Constant value</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      value={col.source.kind === 'constant' ? col.source.value : ''}
+                      disabled={col.source.kind !== 'constant'}
+                      onChange={e => updateColumn(i, { source: { kind: 'constant', value: e.target.value } })}
+                    />
+                    <Select value={col.transform} onValueChange={v => updateColumn(i, { transform: v as ColumnTransform })}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {COLUMN_TRANSFORMS.map(t => <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min={1}
+                      step={0.5}
+                      value={col.width}
+                      onChange={e => updateColumn(i, { width: Number(e.target.value) })}
+                    />
+                    <Input
+                      value={col.numberFormat ?? ''}
+                      placeholder="General"
+                      onChange={e => updateColumn(i, { numberFormat: e.target.value || undefined })}
+                    />
+                    <div className="flex">
+                      <Button variant="ghost" size="icon" onClick={() => moveColumn(i, -1)} aria-label="Move up">
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => moveColumn(i, 1)} aria-label="Move down">
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setColumns(draft.columns.filter((_, j) => j !== i))}
+                        aria-label="Remove column"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setColumns([
+                    ...draft.columns,
+                    { header: '', source: { kind: 'constant', value: '' }, transform: 'none', width: 8 },
+                  ])}
+                >
+                  <Plus className="mr-2 h-4 w-4" /> Add column
+                </Button>
+              </div>
+            </ScrollArea>
+          </TabsContent>
+          <TabsContent value="filters">
+            <ScrollArea className="h-[50vh] pr-3">
+              <FilterRulesEditor
+                rules={draft.filterRules ?? []}
+                onChange={filterRules => setDraft({ ...draft, filterRules })}
+              />
+            </ScrollArea>
+          </TabsContent>
+          <TabsContent value="performers">
+            <ScrollArea className="h-[50vh] pr-3">
+              <PerformerRulesEditor
+                rules={draft.performerRules ?? DEFAULT_PERFORMER_RULES}
+                onChange={performerRules => setDraft({ ...draft, performerRules })}
+              />
+            </ScrollArea>
+          </TabsContent>
+          <TabsContent value="credits">
+            <ScrollArea className="h-[50vh] pr-3">
+              <CreditRulesEditor
+                rules={draft.creditRules ?? DEFAULT_CREDIT_RULES}
+                onChange={creditRules => setDraft({ ...draft, creditRules })}
+              />
+            </ScrollArea>
+          </TabsContent>
+        </Tabs>
+
+        {problems.length > 0 && (
+          <ul className="text-sm text-destructive list-disc pl-5">
+            {problems.map(p => <li key={p}>{p}</li>)}
+          </ul>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={handleSave}>Save profile</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import { Check, X } from 'lucide-react';
+import type { MatchDecision, MatchSuggestion, TrackName } from '@/services/fuzzy-match';
+
+interface MatchReviewDialogProps {
+  open: boolean;
+  suggestions: MatchSuggestion[];
+  decisions: MatchDecision[];
+  onClose: () => void;
+  onDecisionsChange: (decisions: MatchDecision[]) => void;
+}
+
+const trackName = ({ artist, title }: TrackName) => [artist, title].filter(Boolean).join(' – ');
+
+/**
+ * Lists tracks that only loosely resemble a catalogued track or another
+ * variant in the report, so they can be confirmed as the same track or kept
+ * apart. Decisions apply to catalogue lookups and statistics alike.
+ */
+export function MatchReviewDialog({ open, suggestions, decisions, onClose, onDecisionsChange }: MatchReviewDialogProps) {
+  const decide = ({ variant, target }: MatchSuggestion, accepted: boolean) =>
+    onDecisionsChange([...decisions, { variant: variant.key, target: target.key, accepted }]);
+
+  return (
+    <Dialog open={open} onOpenChange={o => { if (!o) onClose(); }}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Review Track Matches</DialogTitle>
+          <DialogDescription>
+            Spelling variants close enough to be the same track, but not close enough to merge without asking.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="h-[55vh] pr-3">
+          <div className="space-y-2">
+            {suggestions.map(suggestion => (
+              <div key={`${suggestion.variant.key}\u0001${suggestion.target.key}`}
+                className="grid grid-cols-[1fr_1fr_3rem_auto] gap-2 items-center rounded-md border p-2 text-sm">
+                <span>{trackName(suggestion.variant)}</span>
+                <span className="text-muted-foreground">{trackName(suggestion.target)}</span>
+                <span className="text-xs text-muted-foreground text-right">{Math.round(suggestion.score * 100)}%</span>
+                <div className="flex space-x-1">
+                  <Button variant="outline" size="sm" onClick={() => decide(suggestion, true)}>
+                    <Check className="mr-1 h-4 w-4" /> Same track
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => decide(suggestion, false)}>
+                    <X className="mr-1 h-4 w-4" /> Different
+                  </Button>
+                </div>
+              </div>
+            ))}
+            {!suggestions.length && (
+              <p className="text-sm text-muted-foreground text-center">No uncertain matches in this report.</p>
+            )}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="ghost" disabled={!decisions.length} onClick={() => onDecisionsChange([])}>
+            Forget {decisions.length} earlier decisions
+          </Button>
+          <Button onClick={onClose}>Done</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import React from 'react';
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import type { PerformerRules } from '@/services/performers';
+
+interface PerformerRulesEditorProps {
+  rules: PerformerRules;
+  onChange: (rules: PerformerRules) => void;
+}
+
+// Blank lines are kept while typing and ignored when the rules are applied
+const toLines = (text: string) => text.split('\n');
+
+/** Separators and known groups used to fill "NR. DE ARTISTI" and the group column. */
+export function PerformerRulesEditor({ rules, onChange }: PerformerRulesEditorProps) {
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-muted-foreground">
+        The artist field is split on these separators to count performers. Known groups count as one performer
+        and are written to the group column, as are the orchestras and groups in the track catalogue.
+      </p>
+      <div className="grid grid-cols-[1fr_2fr] gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="performer-separators">Separators (one per line)</Label>
+          <Textarea id="performer-separators" rows={14} value={rules.separators.join('\n')}
+            onChange={e => onChange({ ...rules, separators: toLines(e.target.value) })} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="known-groups">Known groups (one per line)</Label>
+          <Textarea id="known-groups" rows={14} value={rules.knownGroups.join('\n')}
+            onChange={e => onChange({ ...rules, knownGroups: toLines(e.target.value) })} />
+        </div>
+      </div>
+    </div>
+  );
+}
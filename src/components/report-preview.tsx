@@ -0,0 +1,180 @@
+"use client";
+
+import React, { useMemo, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowDown, ArrowUp, ChevronLeft, ChevronRight, Plus, Trash2 } from 'lucide-react';
+import { mapReportRow, type ReportRow } from '@/services/excel-converter';
+import type { DateFormat } from '@/services/date-format-detection';
+import { createBlankReportRow, editReportRows, formatCellText } from '@/services/report-editing';
+import { formatDuration } from '@/services/durations';
+import type { MappingProfile } from '@/services/mapping-profiles';
+
+const PAGE_SIZE = 25;
+
+interface ReportPreviewProps {
+  rows: ReportRow[];
+  profile: MappingProfile;
+  /** Station time zone, to place plays whose date or time is edited. */
+  timeZone: string;
+  /** Date format of each input file by name, accepted for edited dates. */
+  dateFormats: Record<string, DateFormat | undefined>;
+  onRowsChange: (rows: ReportRow[]) => void;
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  // Blanks sort last
+  if (a === '' || a == null) return b === '' || b == null ? 0 : 1;
+  if (b === '' || b == null) return -1;
+  return String(a).localeCompare(String(b), 'ro', { numeric: true });
+}
+
+/**
+ * Paginated, sortable preview of the report as it will be written.
+ * Cells backed by a source field can be edited; constant columns are read-only.
+ * The track duration and the airtime until the next play follow the report
+ * columns, whichever of them the profile reports.
+ */
+export function ReportPreview({ rows, profile, timeZone, dateFormats, onRowsChange }: ReportPreviewProps) {
+  const [page, setPage] = useState(0);
+  const [sort, setSort] = useState<{ column: number; dir: 1 | -1 } | null>(null);
+  const [editing, setEditing] = useState<{ row: number; column: number; text: string } | null>(null);
+
+  const mapped = useMemo(() => rows.map(r => mapReportRow(r, profile)), [rows, profile]);
+
+  // Indices into `rows`, in display order
+  const order = useMemo(() => {
+    const indices = rows.map((_, i) => i);
+    if (sort) indices.sort((a, b) => compareValues(mapped[a][sort.column], mapped[b][sort.column]) * sort.dir);
+    return indices;
+  }, [rows, mapped, sort]);
+
+  const pageCount = Math.max(1, Math.ceil(order.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const visible = order.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  const toggleSort = (column: number) => {
+    setSort(prev => (prev?.column !== column ? { column, dir: 1 } : prev.dir === 1 ? { column, dir: -1 } : null));
+  };
+
+  const commitEdit = () => {
+    if (!editing) return;
+    const source = profile.columns[editing.column].source;
+    if (source.kind === 'field') {
+      const timing = { timeZone, durationRounding: profile.durationRounding, durationSource: profile.durationSource };
+      const dateFormat = dateFormats[rows[editing.row].sourceFile ?? ''];
+      onRowsChange(editReportRows(rows, editing.row, source.field, editing.text, timing, dateFormat));
+    }
+    setEditing(null);
+  };
+
+  const addRow = () => {
+    // Added to the last file, numbered after its rows
+    const sourceFile = rows[rows.length - 1]?.sourceFile;
+    const nextRow = rows
+      .filter(r => r.sourceFile === sourceFile)
+      .reduce((max, r) => Math.max(max, r.sourceRow), 1) + 1;
+    onRowsChange([...rows, createBlankReportRow(nextRow, sourceFile)]);
+    setSort(null);
+    setPage(Math.floor(rows.length / PAGE_SIZE));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto rounded-md border">
+        <Table className="text-xs">
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-12">Row</TableHead>
+              {profile.columns.map((c, ci) => (
+                <TableHead
+                  key={ci}
+                  className="cursor-pointer select-none whitespace-nowrap"
+                  onClick={() => toggleSort(ci)}
+                >
+                  <span className="inline-flex items-center">
+                    {c.header}
+                    {sort?.column === ci && (sort.dir === 1
+                      ? <ArrowUp className="ml-1 h-3 w-3" />
+                      : <ArrowDown className="ml-1 h-3 w-3" />)}
+                  </span>
+                </TableHead>
+              ))}
+              <TableHead className="whitespace-nowrap text-muted-foreground">Track duration</TableHead>
+              <TableHead className="whitespace-nowrap text-muted-foreground">Airtime</TableHead>
+              <TableHead className="w-10" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visible.map(ri => (
+              <TableRow key={ri}>
+                <TableCell className="py-1 text-muted-foreground">{rows[ri].sourceRow}</TableCell>
+                {profile.columns.map((c, ci) => {
+                  const isEditing = editing?.row === ri && editing.column === ci;
+                  const editable = c.source.kind === 'field';
+                  return (
+                    <TableCell
+                      key={ci}
+                      className={`py-1 whitespace-nowrap ${editable ? 'cursor-text' : 'text-muted-foreground'}`}
+                      onClick={() => editable && !isEditing
+                        && setEditing({ row: ri, column: ci, text: formatCellText(mapped[ri][ci], c) })}
+                    >
+                      {isEditing ? (
+                        <Input
+                          autoFocus
+                          className="h-7 min-w-24 text-xs"
+                          value={editing.text}
+                          onChange={e => setEditing({ ...editing, text: e.target.value })}
+                          onBlur={commitEdit}
+                          onKeyDown={e => {
+                            if (e.key === 'Enter') commitEdit();
+                            if (e.key === 'Escape') setEditing(null);
+                          }}
+                        />
+                      ) : formatCellText(mapped[ri][ci], c)}
+                    </TableCell>
+                  );
+                })}
+                {[rows[ri].durationSeconds, rows[ri].airtimeSeconds].map((seconds, i) => (
+                  <TableCell key={`duration-${i}`} className="py-1 whitespace-nowrap text-muted-foreground">
+                    {typeof seconds === 'number' ? formatDuration(seconds) : ''}
+                  </TableCell>
+                ))}
+                <TableCell className="py-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    aria-label="Delete row"
+                    onClick={() => onRowsChange(rows.filter((_, i) => i !== ri))}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      <div className="flex items-center justify-between text-sm text-muted-foreground">
+        <Button variant="outline" size="sm" onClick={addRow}>
+          <Plus className="mr-2 h-4 w-4" /> Add row
+        </Button>
+        <div className="flex items-center space-x-2">
+          <span>{rows.length} rows · page {currentPage + 1} of {pageCount}</span>
+          <Button variant="outline" size="icon" className="h-8 w-8" aria-label="Previous page"
+            disabled={currentPage === 0} onClick={() => setPage(currentPage - 1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" className="h-8 w-8" aria-label="Next page"
+            disabled={currentPage >= pageCount - 1} onClick={() => setPage(currentPage + 1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  WEEKDAYS, validateSchedule,
+  type ScheduleOverride, type ScheduleSlot, type ShowSchedule, type Weekday,
+} from '@/services/show-schedule';
+
+interface ShowScheduleEditorProps {
+  open: boolean;
+  schedule: ShowSchedule;
+  onCancel: () => void;
+  onSave: (schedule: ShowSchedule) => void;
+}
+
+const newId = () => `slot-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+/** Dialog for the weekly programme grid and date-specific specials. */
+export function ShowScheduleEditor({ open, schedule, onCancel, onSave }: ShowScheduleEditorProps) {
+  const [draft, setDraft] = useState<ShowSchedule>(schedule);
+  const [problems, setProblems] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      setDraft(schedule);
+      setProblems([]);
+    }
+  }, [open, schedule]);
+
+  const updateSlot = (index: number, changes: Partial<ScheduleSlot>) =>
+    setDraft({ ...draft, slots: draft.slots.map((s, i) => (i === index ? { ...s, ...changes } : s)) });
+  const updateOverride = (index: number, changes: Partial<ScheduleOverride>) =>
+    setDraft({ ...draft, overrides: draft.overrides.map((o, i) => (i === index ? { ...o, ...changes } : o)) });
+
+  const handleSave = () => {
+    const found = validateSchedule(draft);
+    setProblems(found);
+    if (!found.length) onSave(draft);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={o => { if (!o) onCancel(); }}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Show Schedule</DialogTitle>
+          <DialogDescription>
+            Fills &quot;NUMELE EMISIUNII&quot; from each play&apos;s date and time. An end time at or before
+            the start time means the show runs past midnight.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="weekly">
+          <TabsList>
+            <TabsTrigger value="weekly">Weekly grid</TabsTrigger>
+            <TabsTrigger value="specials">Specials</TabsTrigger>
+          </TabsList>
+          <TabsContent value="weekly">
+            <ScrollArea className="h-[50vh] pr-3">
+              <div className="space-y-2">
+                {draft.slots.map((slot, i) => (
+                  <div key={slot.id} className="grid grid-cols-[1.2fr_0.8fr_0.8fr_2fr_auto] gap-2 items-center">
+                    <Select
+                      value={String(slot.weekday)}
+                      onValueChange={v => updateSlot(i, { weekday: Number(v) as Weekday })}
+                    >
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {WEEKDAYS.map(d => <SelectItem key={d.value} value={String(d.value)}>{d.label}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <Input type="time" value={slot.start} onChange={e => updateSlot(i, { start: e.target.value })} />
+                    <Input type="time" value={slot.end} onChange={e => updateSlot(i, { end: e.target.value })} />
+                    <Input placeholder="Show name" value={slot.show} onChange={e => updateSlot(i, { show: e.target.value })} />
+                    <Button variant="ghost" size="icon" aria-label="Remove slot"
+                      onClick={() => setDraft({ ...draft, slots: draft.slots.filter((_, j) => j !== i) })}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setDraft({
+                    ...draft,
+                    slots: [...draft.slots, { id: newId(), weekday: 1, start: '00:00', end: '01:00', show: '' }],
+                  })}
+                >
+                  <Plus className="mr-2 h-4 w-4" /> Add slot
+                </Button>
+              </div>
+            </ScrollArea>
+          </TabsContent>
+          <TabsContent value="specials">
+            <ScrollArea className="h-[50vh] pr-3">
+              <div className="space-y-2">
+                {draft.overrides.map((override, i) => (
+                  <div key={override.id} className="grid grid-cols-[1.2fr_0.8fr_0.8fr_2fr_auto] gap-2 items-center">
+                    <Input type="date" value={override.date} onChange={e => updateOverride(i, { date: e.target.value })} />
+                    <Input type="time" value={override.start} onChange={e => updateOverride(i, { start: e.target.value })} />
+                    <Input type="time" value={override.end} onChange={e => updateOverride(i, { end: e.target.value })} />
+                    <Input placeholder="Show name" value={override.show}
+                      onChange={e => updateOverride(i, { show: e.target.value })} />
+                    <Button variant="ghost" size="icon" aria-label="Remove special"
+                      onClick={() => setDraft({ ...draft, overrides: draft.overrides.filter((_, j) => j !== i) })}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setDraft({
+                    ...draft,
+                    overrides: [...draft.overrides, { id: newId(), date: '', start: '00:00', end: '01:00', show: '' }],
+                  })}
+                >
+                  <Plus className="mr-2 h-4 w-4" /> Add special
+                </Button>
+              </div>
+            </ScrollArea>
+          </TabsContent>
+        </Tabs>
+
+        {problems.length > 0 && (
+          <ul className="text-sm text-destructive list-disc pl-5">
+            {problems.map(p => <li key={p}>{p}</li>)}
+          </ul>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={handleSave}>Save schedule</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import React from 'react';
+import { Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from 'recharts';
+import {
+  ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig,
+} from "@/components/ui/chart";
+import { WEEKDAYS } from '@/services/show-schedule';
+import type { Repertoire, ReportStatistics } from '@/services/report-statistics';
+import type { ReportSummary } from '@/services/report-summary';
+
+interface StatisticsDashboardProps {
+  /** Computed from the report rows in the report worker. */
+  stats: ReportStatistics;
+  summary: ReportSummary;
+}
+
+const chartConfig = {
+  plays: { label: 'Plays', color: 'hsl(var(--chart-2))' },
+  romanian: { label: 'Romanian', color: 'hsl(var(--chart-1))' },
+  foreign: { label: 'Foreign', color: 'hsl(var(--chart-4))' },
+} satisfies ChartConfig;
+
+const REPERTOIRES: Repertoire[] = ['romanian', 'foreign'];
+
+const formatMinutes = (seconds: number) => `${Math.round(seconds / 60).toLocaleString()} min`;
+
+function Tile({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-lg border p-3">
+      <div className="text-xs text-muted-foreground">{label}</div>
+      <div className="text-xl font-semibold">{value}</div>
+    </div>
+  );
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium text-foreground/80">{title}</h3>
+      {children}
+    </div>
+  );
+}
+
+/** Top entries as a horizontal bar chart, most played at the top. */
+function TopChart({ data }: { data: { name: string; plays: number }[] }) {
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-[520px] w-full">
+      <BarChart data={data} layout="vertical" margin={{ left: 8, right: 8 }}>
+        <CartesianGrid horizontal={false} />
+        <XAxis type="number" dataKey="plays" allowDecimals={false} />
+        <YAxis type="category" dataKey="name" width={180} interval={0} tickLine={false}
+          tickFormatter={(name: string) => (name.length > 28 ? `${name.slice(0, 27)}…` : name)} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <Bar dataKey="plays" fill="var(--color-plays)" radius={2} />
+      </BarChart>
+    </ChartContainer>
+  );
+}
+
+/** Charts of the report rows, so the numbers can be checked before exporting. */
+export function StatisticsDashboard({ stats, summary }: StatisticsDashboardProps) {
+  const maxAirtime = Math.max(1, ...stats.airtimeByWeekdayHour.flat());
+  const romanianShare = summary.plays ? Math.round((stats.repertoire.romanian.plays / summary.plays) * 100) : 0;
+  const repertoireData = REPERTOIRES.map(key => ({ key, plays: stats.repertoire[key].plays }));
+
+  if (!summary.plays) {
+    return <p className="text-sm text-muted-foreground text-center">No rows to chart.</p>;
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+        <Tile label="Plays" value={summary.plays.toLocaleString()} />
+        <Tile label="Airtime" value={formatMinutes(summary.totalSeconds)} />
+        <Tile label="Unique tracks" value={summary.uniqueTracks.toLocaleString()} />
+        <Tile label="Romanian repertoire" value={`${romanianShare}%`} />
+      </div>
+
+      <Section title="Plays per day">
+        <ChartContainer config={chartConfig} className="aspect-auto h-[240px] w-full">
+          <BarChart data={stats.playsPerDay}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="date" tickLine={false} minTickGap={16} tickFormatter={(date: string) => date.slice(5)} />
+            <YAxis allowDecimals={false} width={40} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Bar dataKey="plays" fill="var(--color-plays)" radius={2} />
+          </BarChart>
+        </ChartContainer>
+      </Section>
+
+      <Section title="Airtime per weekday and hour">
+        <div className="overflow-x-auto">
+          <div className="grid min-w-[640px] grid-cols-[3rem_repeat(24,minmax(0,1fr))] gap-px text-[10px]">
+            <span />
+            {Array.from({ length: 24 }, (_, hour) => (
+              <span key={hour} className="text-center text-muted-foreground">{hour}</span>
+            ))}
+            {WEEKDAYS.map((day, d) => (
+              <React.Fragment key={day.value}>
+                <span className="pr-1 text-right text-muted-foreground">{day.label.slice(0, 3)}</span>
+                {stats.airtimeByWeekdayHour[d].map((seconds, hour) => (
+                  <div
+                    key={hour}
+                    className="h-5 rounded-sm border border-border/40"
+                    style={{ backgroundColor: `hsl(var(--chart-2) / ${seconds / maxAirtime})` }}
+                    title={`${day.label} ${String(hour).padStart(2, '0')}:00 – ${formatMinutes(seconds)}`}
+                  />
+                ))}
+              </React.Fragment>
+            ))}
+          </div>
+        </div>
+      </Section>
+
+      <div className="grid gap-8 lg:grid-cols-2">
+        <Section title={`Top ${stats.topArtists.length} artists`}>
+          <TopChart data={stats.topArtists} />
+        </Section>
+        <Section title={`Top ${stats.topTitles.length} titles`}>
+          <TopChart data={stats.topTitles} />
+        </Section>
+      </div>
+
+      <Section title="Romanian vs foreign repertoire (estimated from titles and artists)">
+        <ChartContainer config={chartConfig} className="mx-auto aspect-square h-[260px]">
+          <PieChart>
+            <ChartTooltip content={<ChartTooltipContent nameKey="key" hideLabel />} />
+            <Pie data={repertoireData} dataKey="plays" nameKey="key" innerRadius={50}>
+              {repertoireData.map(entry => <Cell key={entry.key} fill={`var(--color-${entry.key})`} />)}
+            </Pie>
+            <ChartLegend content={<ChartLegendContent nameKey="key" />} />
+          </PieChart>
+        </ChartContainer>
+      </Section>
+    </div>
+  );
+}
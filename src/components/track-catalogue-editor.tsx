@@ -0,0 +1,146 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import { CatalogueImportDialog } from '@/components/catalogue-import-dialog';
+import { FileUp, ListPlus, Plus, Trash2 } from 'lucide-react';
+import {
+  CATALOGUE_FIELDS, createCatalogueEntry, uncataloguedTracks, validateCatalogue,
+  type CatalogueEntry,
+} from '@/services/track-catalogue';
+import { normalizeText } from '@/services/text-utils';
+import type { ReportRow } from '@/services/excel-converter';
+
+/** Entries rendered at once; the search narrows down larger catalogues. */
+const MAX_VISIBLE = 100;
+
+interface TrackCatalogueEditorProps {
+  open: boolean;
+  catalogue: CatalogueEntry[];
+  /** Rows of the loaded report, offered as tracks to add. */
+  rows: ReportRow[] | null;
+  onCancel: () => void;
+  onSave: (catalogue: CatalogueEntry[]) => void;
+}
+
+/** Dialog for editing the track metadata joined into report rows. */
+export function TrackCatalogueEditor({ open, catalogue, rows, onCancel, onSave }: TrackCatalogueEditorProps) {
+  const [draft, setDraft] = useState<CatalogueEntry[]>(catalogue);
+  const [search, setSearch] = useState('');
+  const [problems, setProblems] = useState<string[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setDraft(catalogue);
+      setSearch('');
+      setProblems([]);
+      setIsImporting(false);
+    }
+  }, [open, catalogue]);
+
+  const missing = useMemo(() => (rows ? uncataloguedTracks(rows, draft) : []), [rows, draft]);
+
+  // Indices into `draft` matching the search
+  const matches = useMemo(() => {
+    const needle = normalizeText(search);
+    return draft
+      .map((entry, i) => ({ entry, i }))
+      .filter(({ entry }) => !needle || normalizeText(`${entry.artist} ${entry.title} ${entry.isrc}`).includes(needle))
+      .map(({ i }) => i);
+  }, [draft, search]);
+
+  const updateEntry = (index: number, changes: Partial<CatalogueEntry>) =>
+    setDraft(draft.map((e, i) => (i === index ? { ...e, ...changes, updatedAt: new Date().toISOString() } : e)));
+
+  const handleSave = () => {
+    const found = validateCatalogue(draft);
+    setProblems(found);
+    if (!found.length) onSave(draft);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={o => { if (!o) onCancel(); }}>
+      <DialogContent className="max-w-6xl">
+        <DialogHeader>
+          <DialogTitle>Track Catalogue</DialogTitle>
+          <DialogDescription>
+            Metadata missing from the RadioDJ export, matched to plays by ISRC or by artist and title and filled in
+            whenever a report is converted.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center space-x-2">
+          <Input placeholder="Search artist, title or ISRC" value={search} onChange={e => setSearch(e.target.value)} />
+          <Button variant="outline" size="sm" disabled={!missing.length}
+            onClick={() => setDraft([...missing, ...draft])}>
+            <ListPlus className="mr-2 h-4 w-4" /> Add {missing.length} tracks from report
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setIsImporting(true)}>
+            <FileUp className="mr-2 h-4 w-4" /> Import…
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => { setDraft([createCatalogueEntry(), ...draft]); setSearch(''); }}>
+            <Plus className="mr-2 h-4 w-4" /> Add track
+          </Button>
+        </div>
+
+        <ScrollArea className="h-[55vh] pr-3">
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1.5fr_1.5fr_1fr_repeat(7,1fr)_auto] gap-2 text-xs font-medium text-muted-foreground">
+              <span>Artist</span><span>Title</span><span>ISRC</span>
+              {CATALOGUE_FIELDS.map(f => <span key={f.field}>{f.label}</span>)}
+              <span className="w-9" />
+            </div>
+            {matches.slice(0, MAX_VISIBLE).map(i => {
+              const entry = draft[i];
+              return (
+                <div key={entry.id} className="grid grid-cols-[1.5fr_1.5fr_1fr_repeat(7,1fr)_auto] gap-2 items-center">
+                  <Input value={entry.artist} onChange={e => updateEntry(i, { artist: e.target.value })} />
+                  <Input value={entry.title} onChange={e => updateEntry(i, { title: e.target.value })} />
+                  <Input value={entry.isrc} onChange={e => updateEntry(i, { isrc: e.target.value })} />
+                  {CATALOGUE_FIELDS.map(f => (
+                    <Input key={f.field} value={entry[f.field] ?? ''} onChange={e => updateEntry(i, { [f.field]: e.target.value })} />
+                  ))}
+                  <Button variant="ghost" size="icon" aria-label="Remove track"
+                    onClick={() => setDraft(draft.filter((_, j) => j !== i))}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+            {matches.length > MAX_VISIBLE && (
+              <p className="text-xs text-muted-foreground text-center">
+                Showing {MAX_VISIBLE} of {matches.length} tracks; refine the search to see the rest.
+              </p>
+            )}
+            {!draft.length && (
+              <p className="text-sm text-muted-foreground text-center">The catalogue is empty.</p>
+            )}
+          </div>
+        </ScrollArea>
+
+        {problems.length > 0 && (
+          <ul className="text-sm text-destructive list-disc pl-5">
+            {problems.map(p => <li key={p}>{p}</li>)}
+          </ul>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={handleSave}>Save catalogue ({draft.length} tracks)</Button>
+        </DialogFooter>
+      </DialogContent>
+      <CatalogueImportDialog
+        open={isImporting}
+        catalogue={draft}
+        onCancel={() => setIsImporting(false)}
+        onImport={imported => { setDraft(imported); setIsImporting(false); }}
+      />
+    </Dialog>
+  );
+}
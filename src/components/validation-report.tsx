@@ -0,0 +1,75 @@
+"use client";
+
+import React from 'react';
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CheckCircle2 } from 'lucide-react';
+import { capIssuesPerCode, summarizeIssues, type ValidationIssue } from '@/services/report-validation';
+
+interface ValidationReportProps {
+  issues: ValidationIssue[];
+  rowCount: number;
+}
+
+// Issues listed per kind; the rest are only counted
+const ISSUES_PER_CODE = 50;
+
+/** Summary and row-level list of validation issues found before conversion. */
+export function ValidationReport({ issues, rowCount }: ValidationReportProps) {
+  const counts = summarizeIssues(issues);
+  const { shown, hidden } = React.useMemo(() => capIssuesPerCode(issues, ISSUES_PER_CODE), [issues]);
+  const showFile = issues.some(issue => issue.file);
+
+  if (!issues.length) {
+    return (
+      <p className="flex items-center justify-center text-sm text-muted-foreground">
+        <CheckCircle2 className="mr-2 h-4 w-4 text-primary" />
+        All {rowCount} rows passed validation.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium text-foreground/80">Validation ({rowCount} rows)</span>
+        <span className="space-x-1">
+          <Badge variant="destructive">{counts.error} errors</Badge>
+          <Badge variant="secondary">{counts.warning} warnings</Badge>
+        </span>
+      </div>
+      <ScrollArea className="h-48 rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {showFile && <TableHead>File</TableHead>}
+              <TableHead className="w-14">Row</TableHead>
+              <TableHead className="w-24">Severity</TableHead>
+              <TableHead>Issue</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {shown.map((issue, i) => (
+              <TableRow key={i}>
+                {showFile && <TableCell className="py-1 text-xs">{issue.file}</TableCell>}
+                <TableCell className="py-1">{issue.row}</TableCell>
+                <TableCell className="py-1">
+                  <Badge variant={issue.severity === 'error' ? 'destructive' : 'secondary'}>
+                    {issue.severity}
+                  </Badge>
+                </TableCell>
+                <TableCell className="py-1 text-xs">{issue.message}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </ScrollArea>
+      {Object.entries(hidden).map(([code, count]) => (
+        <p key={code} className="text-xs text-muted-foreground">
+          +{count} more {code} issues not listed.
+        </p>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { BUILT_IN_PROFILES, DEFAULT_PROFILE, type MappingProfile } from '@/services/mapping-profiles';
+import { useStoredState } from '@/hooks/use-stored-state';
+
+const STORAGE_KEY = 'radiodj-report.mapping-profiles';
+const SELECTED_KEY = 'radiodj-report.selected-profile';
+
+const readProfiles = (stored: unknown): MappingProfile[] | null =>
+  Array.isArray(stored) ? stored.filter(p => p && p.id && Array.isArray(p.columns)) : null;
+
+/**
+ * Keeps user-defined mapping profiles in localStorage alongside the
+ * built-in ones, and remembers which profile is selected.
+ */
+export function useMappingProfiles() {
+  const [customProfiles, persist] = useStoredState<MappingProfile[]>(STORAGE_KEY, [], readProfiles);
+  const [selectedId, setSelectedId] = useState<string>(DEFAULT_PROFILE.id);
+
+  useEffect(() => {
+    setSelectedId(window.localStorage.getItem(SELECTED_KEY) || DEFAULT_PROFILE.id);
+  }, []);
+
+  const profiles = useMemo(() => [...BUILT_IN_PROFILES, ...customProfiles], [customProfiles]);
+  const selectedProfile = profiles.find(p => p.id === selectedId) ?? DEFAULT_PROFILE;
+
+  const selectProfile = useCallback((id: string) => {
+    setSelectedId(id);
+    window.localStorage.setItem(SELECTED_KEY, id);
+  }, []);
+
+  /** Inserts or replaces a custom profile; returns whether it was stored. */
+  const saveProfile = useCallback((profile: MappingProfile) => {
+    if (profile.builtIn) throw new Error('Built-in profiles cannot be saved.');
+    const exists = customProfiles.some(p => p.id === profile.id);
+    return persist(exists
+      ? customProfiles.map(p => (p.id === profile.id ? profile : p))
+      : [...customProfiles, profile]);
+  }, [customProfiles, persist]);
+
+  const deleteProfile = useCallback((id: string) => {
+    if (persist(customProfiles.filter(p => p.id !== id)) && selectedId === id) selectProfile(DEFAULT_PROFILE.id);
+  }, [customProfiles, persist, selectedId, selectProfile]);
+
+  return { profiles, selectedProfile, selectProfile, saveProfile, deleteProfile };
+}
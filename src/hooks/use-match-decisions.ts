@@ -0,0 +1,15 @@
+"use client";
+
+import type { MatchDecision } from '@/services/fuzzy-match';
+import { useStoredState } from '@/hooks/use-stored-state';
+
+const STORAGE_KEY = 'radiodj-report.match-decisions';
+
+const readDecisions = (stored: unknown): MatchDecision[] | null =>
+  Array.isArray(stored) ? stored.filter(d => d && typeof d.variant === 'string' && typeof d.target === 'string') : null;
+
+/** Keeps the confirmed and rejected track matches in localStorage. */
+export function useMatchDecisions() {
+  const [decisions, saveDecisions] = useStoredState<MatchDecision[]>(STORAGE_KEY, [], readDecisions);
+  return { decisions, saveDecisions };
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  JobCancelledError,
+  type JobProgress, type ReportJob, type ReportJobResult, type ReportWorkerMessage,
+} from '@/services/report-jobs';
+
+interface RunningJob {
+  worker: Worker;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Runs report jobs in a Web Worker, one at a time. Starting a job cancels
+ * the one still running; cancelling terminates the worker, so the work
+ * really stops, and its promise rejects with a `JobCancelledError`.
+ */
+export function useReportWorker() {
+  const running = useRef<RunningJob | null>(null);
+  const [progress, setProgress] = useState<JobProgress | null>(null);
+
+  const stop = useCallback(() => {
+    const job = running.current;
+    if (!job) return;
+    running.current = null;
+    job.worker.terminate();
+    job.reject(new JobCancelledError());
+  }, []);
+
+  const cancel = useCallback(() => {
+    stop();
+    setProgress(null);
+  }, [stop]);
+
+  const run = useCallback(<J extends ReportJob>(job: J): Promise<ReportJobResult<J>> => {
+    stop();
+    const worker = new Worker(new URL('../workers/report-worker.ts', import.meta.url));
+    return new Promise<ReportJobResult<J>>((resolve, reject) => {
+      const current: RunningJob = { worker, reject };
+      running.current = current;
+      const finish = () => {
+        worker.terminate();
+        if (running.current === current) {
+          running.current = null;
+          setProgress(null);
+        }
+      };
+
+      worker.onmessage = (event: MessageEvent<ReportWorkerMessage>) => {
+        const message = event.data;
+        if (message.type === 'progress') {
+          setProgress(message.progress);
+        } else if (message.type === 'done') {
+          finish();
+          resolve(message.result as ReportJobResult<J>);
+        } else {
+          finish();
+          reject(new Error(message.message));
+        }
+      };
+      worker.onerror = event => {
+        finish();
+        reject(new Error(event.message || 'The report worker failed.'));
+      };
+      setProgress({ stage: 'Starting', percent: 0 });
+      worker.postMessage(job);
+    });
+  }, [stop]);
+
+  // Nothing keeps running after the page goes away
+  useEffect(() => stop, [stop]);
+
+  return { run, cancel, progress };
+}
@@ -0,0 +1,17 @@
+"use client";
+
+import { EMPTY_SCHEDULE, type ShowSchedule } from '@/services/show-schedule';
+import { useStoredState } from '@/hooks/use-stored-state';
+
+const STORAGE_KEY = 'radiodj-report.show-schedule';
+
+const readSchedule = (stored: unknown): ShowSchedule | null => {
+  const schedule = stored as ShowSchedule | null;
+  return schedule && Array.isArray(schedule.slots) && Array.isArray(schedule.overrides) ? schedule : null;
+};
+
+/** Keeps the station's programme grid in localStorage. */
+export function useShowSchedule() {
+  const [schedule, saveSchedule] = useStoredState<ShowSchedule>(STORAGE_KEY, EMPTY_SCHEDULE, readSchedule);
+  return { schedule, saveSchedule };
+}
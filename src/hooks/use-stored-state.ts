@@ -0,0 +1,49 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from '@/hooks/use-toast';
+
+/**
+ * A value kept in localStorage under `key`, read once after mounting. The
+ * stored JSON is only used as far as `validate` accepts it, so a corrupt or
+ * outdated entry leaves `initial`. Saving writes to storage before updating
+ * the state: when the browser refuses, e.g. because its quota is exceeded,
+ * the value in memory stays the stored one and the user is told.
+ *
+ * @param validate Returns the usable value from the parsed JSON, or `null`.
+ *   Pass a function defined outside the component so it is stable.
+ * @returns The value, and a save function returning whether it was stored.
+ */
+export function useStoredState<T>(key: string, initial: T, validate: (stored: unknown) => T | null) {
+  const [value, setValue] = useState<T>(initial);
+
+  useEffect(() => {
+    try {
+      const stored = window.localStorage.getItem(key);
+      const valid = stored === null ? null : validate(JSON.parse(stored));
+      if (valid !== null) setValue(valid);
+    } catch {
+      // Ignore a corrupt entry; the user starts from the initial value
+    }
+  }, [key, validate]);
+
+  const save = useCallback((next: T): boolean => {
+    try {
+      window.localStorage.setItem(key, JSON.stringify(next));
+    } catch (error) {
+      const full = error instanceof DOMException && error.name === 'QuotaExceededError';
+      toast({
+        variant: "destructive",
+        title: "Changes Not Saved",
+        description: full
+          ? "The browser's storage for this site is full; your previous data was kept."
+          : "The browser refused to store the changes; your previous data was kept.",
+      });
+      return false;
+    }
+    setValue(next);
+    return true;
+  }, [key]);
+
+  return [value, save] as const;
+}
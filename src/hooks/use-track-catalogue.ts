@@ -0,0 +1,15 @@
+"use client";
+
+import type { CatalogueEntry } from '@/services/track-catalogue';
+import { useStoredState } from '@/hooks/use-stored-state';
+
+const STORAGE_KEY = 'radiodj-report.track-catalogue';
+
+const readCatalogue = (stored: unknown): CatalogueEntry[] | null =>
+  Array.isArray(stored) ? stored.filter(e => e && e.id && typeof e.title === 'string') : null;
+
+/** Keeps the track metadata catalogue in localStorage. */
+export function useTrackCatalogue() {
+  const [catalogue, saveCatalogue] = useStoredState<CatalogueEntry[]>(STORAGE_KEY, [], readCatalogue);
+  return { catalogue, saveCatalogue };
+}
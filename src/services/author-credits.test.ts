@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CREDIT_RULES, assignAuthors, createCreditParser } from './author-credits';
+import { createBlankReportRow } from './report-editing';
+
+const parser = createCreditParser(DEFAULT_CREDIT_RULES);
+
+describe('createCreditParser', () => {
+  it('splits "music / lyrics" credits', () => {
+    expect(parser.parse('Ion Popescu / Ana Ionescu')).toEqual({ music: 'Ion Popescu', lyrics: 'Ana Ionescu' });
+    expect(parser.parse('A; B; C')).toEqual({ music: 'A', lyrics: 'B, C' });
+  });
+
+  it('reads marked credits in any order, with or without diacritics', () => {
+    expect(parser.parse('Text: Ana Ionescu, Muzică: Ion Popescu')).toEqual({ music: 'Ion Popescu', lyrics: 'Ana Ionescu' });
+    expect(parser.parse('Mihai Pop, versuri: Ana Ionescu')).toEqual({ music: 'Mihai Pop', lyrics: 'Ana Ionescu' });
+  });
+
+  it('credits an unsplit name as the rules say', () => {
+    expect(parser.parse('Ion Popescu')).toEqual({ music: 'Ion Popescu', lyrics: '' });
+    expect(createCreditParser({ ...DEFAULT_CREDIT_RULES, unsplit: 'both' }).parse('Ion Popescu'))
+      .toEqual({ music: 'Ion Popescu', lyrics: 'Ion Popescu' });
+  });
+
+  it('leaves blank credits blank', () => {
+    expect(parser.parse('  ')).toEqual({ music: '', lyrics: '' });
+  });
+});
+
+describe('assignAuthors', () => {
+  const row = { ...createBlankReportRow(2), copy: 'Ion Popescu', composer: 'Ana Ionescu' };
+
+  it('reads copyright and composer separately in the separate layout', () => {
+    const [result] = assignAuthors([row], { ...DEFAULT_CREDIT_RULES, layout: 'separate' });
+    expect([result.musicAuthor, result.lyricsAuthor]).toEqual(['Ion Popescu', 'Ana Ionescu']);
+  });
+
+  it('falls back to copyright when composer is blank in the combined layout', () => {
+    const [result] = assignAuthors([{ ...row, composer: '', copy: 'Ion Popescu / Ana Ionescu' }], DEFAULT_CREDIT_RULES);
+    expect([result.musicAuthor, result.lyricsAuthor]).toEqual(['Ion Popescu', 'Ana Ionescu']);
+  });
+});
@@ -0,0 +1,116 @@
+import type { ReportRow } from './excel-converter';
+import { escapeRegExp, removeDiacritics } from './text-utils';
+
+/**
+ * Fills the "AUTOR MUZICA" and "AUTOR TEXT" columns from RadioDJ's credit
+ * fields. Libraries differ: some keep the music author under copyright and
+ * the lyrics author under composer, others put both into composer as
+ * "music / lyrics" or "muzica: … text: …". Authors the credits leave blank
+ * are filled in from the track catalogue afterwards.
+ */
+
+/**
+ * - `combined`: composer (or copyright, when composer is blank) holds both authors.
+ * - `separate`: copyright holds the music author and composer the lyrics author.
+ */
+export type CreditLayout = 'combined' | 'separate';
+
+/** Where a combined credit goes when it has no separator or marker. */
+export type UnsplitCredit = 'music' | 'both';
+
+export interface CreditRules {
+  layout: CreditLayout;
+  /** Between the music and the lyrics authors, e.g. "/" in "Ion Popescu / Ana Ionescu". */
+  separators: string[];
+  /** Words before a colon introducing the music authors, e.g. "muzica" in "muzica: Ion Popescu". */
+  musicMarkers: string[];
+  /** Words before a colon introducing the lyrics authors, e.g. "text". */
+  lyricsMarkers: string[];
+  unsplit: UnsplitCredit;
+}
+
+export const CREDIT_LAYOUTS: { value: CreditLayout; label: string }[] = [
+  { value: 'combined', label: 'Composer holds "music / lyrics"' },
+  { value: 'separate', label: 'Copyright = music, composer = lyrics' }
+];
+
+export const UNSPLIT_CREDITS: { value: UnsplitCredit; label: string }[] = [
+  { value: 'music', label: 'Music author only' },
+  { value: 'both', label: 'Music and lyrics author' }
+];
+
+export const DEFAULT_CREDIT_RULES: CreditRules = {
+  layout: 'combined',
+  separators: ['/', ';', '|'],
+  musicMarkers: ['muzica', 'muz', 'music', 'compozitor'],
+  lyricsMarkers: ['text', 'versuri', 'lyrics', 'textier'],
+  unsplit: 'music'
+};
+
+export interface AuthorCredit {
+  music: string;
+  lyrics: string;
+}
+
+// One UTF-16 unit per input unit, so match positions carry over to the original text
+const foldChars = (text: string) => text.split('').map(c => removeDiacritics(c).charAt(0) || c).join('');
+
+const fold = (text: string) => foldChars(text.normalize('NFC')).toLowerCase().trim();
+
+// Separator and list punctuation left around an author after splitting
+const tidy = (text: string) => text.replace(/^[\s;/|,.-]+|[\s;/|,-]+$/g, '');
+
+const alternatives = (words: string[]) => words.map(fold).filter(Boolean).sort((a, b) => b.length - a.length).map(escapeRegExp);
+
+export interface CreditParser {
+  parse(text: string): AuthorCredit;
+}
+
+/** Compiles the rules once for many credits. */
+export function createCreditParser(rules: CreditRules): CreditParser {
+  const music = alternatives(rules.musicMarkers);
+  const lyrics = alternatives(rules.lyricsMarkers);
+  const markerWords = [...music, ...lyrics];
+  const marker = markerWords.length
+    ? new RegExp(`(?<![\\p{L}\\p{N}])(${markerWords.join('|')})\\s*:\\s*`, 'giu')
+    : null;
+  const musicWords = new Set(rules.musicMarkers.map(fold));
+  const separators = alternatives(rules.separators);
+  const separator = separators.length ? new RegExp(`\\s*(?:${separators.join('|')})\\s*`) : null;
+
+  return {
+    parse(text) {
+      const credit = text.normalize('NFC').trim();
+      if (!credit) return { music: '', lyrics: '' };
+
+      const found = marker ? Array.from(foldChars(credit).matchAll(marker)) : [];
+      if (found.length) {
+        const authors: Record<keyof AuthorCredit, string[]> = { music: [], lyrics: [] };
+        // Text before the first marker is credited like an unmarked credit
+        const before = tidy(credit.slice(0, found[0].index));
+        if (before) authors.music.push(before);
+        found.forEach((match, i) => {
+          const start = match.index! + match[0].length;
+          const names = tidy(credit.slice(start, found[i + 1]?.index ?? credit.length));
+          if (names) authors[musicWords.has(match[1].toLowerCase()) ? 'music' : 'lyrics'].push(names);
+        });
+        return { music: authors.music.join(', '), lyrics: authors.lyrics.join(', ') };
+      }
+
+      const parts = (separator ? credit.split(separator) : [credit]).map(tidy).filter(Boolean);
+      if (parts.length > 1) return { music: parts[0], lyrics: parts.slice(1).join(', ') };
+      return { music: parts[0] ?? '', lyrics: rules.unsplit === 'both' ? parts[0] ?? '' : '' };
+    }
+  };
+}
+
+/** Sets the music and lyrics authors of each row from its credit fields. */
+export function assignAuthors(rows: ReportRow[], rules: CreditRules): ReportRow[] {
+  const parser = createCreditParser(rules);
+  return rows.map(row => {
+    const credit = rules.layout === 'separate'
+      ? { music: row.copy.trim(), lyrics: row.composer.trim() }
+      : parser.parse(row.composer.trim() ? row.composer : row.copy);
+    return { ...row, musicAuthor: credit.music, lyricsAuthor: credit.lyrics };
+  });
+}
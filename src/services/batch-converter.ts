@@ -0,0 +1,100 @@
+import * as XLSX from 'xlsx';
+import {
+  OUTPUT_FORMATS, convertReportRows, writeReportWorkbook,
+  type ConvertOptions, type ReportRow,
+} from './excel-converter';
+import { playedInstant } from './station-time';
+import { ConversionError } from './conversion-error';
+
+/**
+ * How several input files are turned into output:
+ * - `merge`: one report with all plays in chronological order
+ * - `sheets`: one workbook with a sheet per input file
+ * - `zip`: a ZIP archive holding a separate report per input file
+ */
+export type BatchMode = 'merge' | 'sheets' | 'zip';
+
+export const BATCH_MODES: { value: BatchMode; label: string }[] = [
+  { value: 'merge', label: 'Merge into one report' },
+  { value: 'sheets', label: 'One sheet per file' },
+  { value: 'zip', label: 'ZIP of separate reports' }
+];
+
+export interface BatchInput {
+  /** Original file name, e.g. `2026-09-14.csv`. */
+  name: string;
+  rows: ReportRow[];
+}
+
+export interface BatchOutput {
+  data: Buffer;
+  extension: string;
+  mimeType: string;
+}
+
+/** File name without extension and with unsafe characters replaced. */
+export function safeBaseName(name: string): string {
+  return name.replace(/\.[^.]+$/, '').replace(/[^a-z0-9]/gi, '_');
+}
+
+/**
+ * Orders rows by the moment they were played, so the hour repeated when
+ * clocks go back is not interleaved. Rows whose date did not parse keep
+ * their relative order and go last.
+ */
+export function sortChronologically(rows: ReportRow[]): ReportRow[] {
+  return rows
+    .map((row, i) => ({ row, i, at: playedInstant(row) ?? Infinity }))
+    .sort((a, b) => (a.at === b.at ? a.i - b.i : a.at - b.at))
+    .map(({ row }) => row);
+}
+
+/**
+ * Converts several parsed files at once.
+ *
+ * @param inputs Parsed rows per input file.
+ * @param mode How the files are combined.
+ * @param options Conversion options shared by every output. The sheet
+ *   grouping applies to merged and zipped reports; `sheets` mode always
+ *   writes one sheet per file.
+ * @returns The file data with the extension and MIME type to download it as.
+ */
+export function convertBatch(inputs: BatchInput[], mode: BatchMode, options: ConvertOptions = {}): BatchOutput {
+  const format = OUTPUT_FORMATS[options.format ?? 'xls'];
+  if (!inputs.length) throw new ConversionError('EMPTY_INPUT', 'No files to convert.');
+
+  switch (mode) {
+    case 'merge':
+      return {
+        data: convertReportRows(sortChronologically(inputs.flatMap(i => i.rows)), options),
+        extension: format.extension,
+        mimeType: format.mimeType
+      };
+    case 'sheets':
+      if (options.format === 'csv') {
+        throw new ConversionError('UNSUPPORTED_FORMAT', 'One sheet per file needs a workbook format (XLS, XLSX or ODS).');
+      }
+      return {
+        data: writeReportWorkbook(inputs.map(i => ({ name: safeBaseName(i.name), rows: i.rows })), options),
+        extension: format.extension,
+        mimeType: format.mimeType
+      };
+    case 'zip': {
+      const zip = XLSX.CFB.utils.cfb_new();
+      const used = new Set<string>();
+      for (const input of inputs) {
+        let name = safeBaseName(input.name);
+        for (let n = 2; used.has(name); n++) name = `${safeBaseName(input.name)}_${n}`;
+        used.add(name);
+        XLSX.CFB.utils.cfb_add(zip, `${name}.${format.extension}`, convertReportRows(input.rows, options));
+      }
+      return {
+        data: XLSX.CFB.write(zip, { fileType: 'zip', type: 'buffer', compression: true }),
+        extension: 'zip',
+        mimeType: 'application/zip'
+      };
+    }
+    default:
+      throw new ConversionError('INVALID_OPTION', `Unknown batch mode "${mode}".`);
+  }
+}
@@ -0,0 +1,173 @@
+import * as XLSX from 'xlsx';
+import { decodeCsv, detectDialect, detectEncoding, parseCsv } from './csv-detection';
+import {
+  CATALOGUE_FIELDS, addToCatalogueIndex, createCatalogueEntry, findCatalogueEntry, indexCatalogue, normalizeIsrc,
+  type CatalogueEntry, type CatalogueField,
+} from './track-catalogue';
+import { normalizeText } from './text-utils';
+
+/**
+ * Seeds the track catalogue from label spreadsheets (XLSX, XLS, ODS) and
+ * CSV/TSV tag exports of the music library. Columns are mapped to catalogue
+ * fields by the user, and the import is previewed as a diff against the
+ * catalogue before it is applied.
+ */
+
+/** Catalogue fields an import column can be mapped to. */
+export type ImportField = 'artist' | 'title' | 'isrc' | CatalogueField;
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; aliases: string[] }[] = [
+  { field: 'artist', label: 'Artist', aliases: ['artist', 'artist name', 'performer', 'interpret', 'album artist'] },
+  { field: 'title', label: 'Title', aliases: ['title', 'track', 'track title', 'song', 'titlu', 'titlul piesei'] },
+  { field: 'isrc', label: 'ISRC', aliases: ['isrc', 'isrc code'] },
+  { field: 'label', label: 'Label', aliases: ['label', 'record label', 'casa de discuri', 'publisher'] },
+  { field: 'catalogNumber', label: 'Catalogue number', aliases: ['catalog number', 'catalogue number', 'catalog no', 'cat no', 'catalognumber', 'numar catalog'] },
+  { field: 'country', label: 'Country', aliases: ['country', 'tara', 'origin'] },
+  { field: 'composer', label: 'Composer', aliases: ['composer', 'autor muzica', 'music by'] },
+  { field: 'lyricist', label: 'Lyricist', aliases: ['lyricist', 'autor text', 'lyrics by', 'text'] },
+  { field: 'ensemble', label: 'Orchestra / group', aliases: ['orchestra', 'ensemble', 'band', 'formatie'] },
+  { field: 'recordingType', label: 'Recording type', aliases: ['recording type', 'tipul inregistrarii'] }
+];
+
+/** Spreadsheet formats read with SheetJS; anything else is read as CSV. */
+const SPREADSHEET_EXTENSIONS = /\.(xlsx|xlsm|xls|ods)$/i;
+
+export interface ImportTable {
+  headers: string[];
+  rows: string[][];
+}
+
+/** Column index per field; unmapped fields are left out. */
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+/** Reads the first sheet of a spreadsheet, or a CSV/TSV file, as text cells. */
+export function readImportTable(bytes: Uint8Array, fileName: string): ImportTable {
+  let cells: string[][];
+  if (SPREADSHEET_EXTENSIONS.test(fileName)) {
+    const wb = XLSX.read(bytes, { type: 'array' });
+    const ws = wb.Sheets[wb.SheetNames[0]];
+    cells = ws ? XLSX.utils.sheet_to_json<string[]>(ws, { header: 1, raw: false, defval: '' }) : [];
+  } else {
+    const text = decodeCsv(bytes, detectEncoding(bytes).encoding);
+    cells = parseCsv(text, detectDialect(text));
+  }
+  const [headers = [], ...rows] = cells.map(r => r.map(c => String(c ?? '').trim()));
+  return { headers, rows: rows.filter(r => r.some(Boolean)) };
+}
+
+/** Maps columns whose header matches a known name for a field. */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const normalized = headers.map(normalizeText);
+  for (const { field, aliases } of IMPORT_FIELDS) {
+    const index = normalized.findIndex(h => aliases.includes(h));
+    if (index !== -1 && !Object.values(mapping).includes(index)) mapping[field] = index;
+  }
+  return mapping;
+}
+
+/** Catalogue entries from the mapped columns; rows without a title or ISRC are skipped. */
+export function entriesFromTable(table: ImportTable, mapping: ColumnMapping): CatalogueEntry[] {
+  const cell = (row: string[], field: ImportField) => {
+    const index = mapping[field];
+    return index === undefined ? '' : (row[index] ?? '').trim();
+  };
+  return table.rows
+    .map(row => {
+      const entry = createCatalogueEntry(cell(row, 'artist'), cell(row, 'title'), cell(row, 'isrc'));
+      for (const { field } of CATALOGUE_FIELDS) entry[field] = cell(row, field);
+      return entry;
+    })
+    .filter(e => normalizeText(e.title) || normalizeIsrc(e.isrc));
+}
+
+/** Fields compared between an imported entry and the catalogue. */
+type ComparedField = 'isrc' | CatalogueField;
+
+const COMPARED_FIELDS: ComparedField[] = ['isrc', ...CATALOGUE_FIELDS.map(f => f.field)];
+
+const sameValue = (field: ComparedField, a: string, b: string) =>
+  field === 'isrc' ? normalizeIsrc(a) === normalizeIsrc(b) : normalizeText(a) === normalizeText(b);
+
+export interface CatalogueChange {
+  existing: CatalogueEntry;
+  incoming: CatalogueEntry;
+  /** Fields blank in the catalogue that the import fills in. */
+  filled: ComparedField[];
+  /** Fields where the catalogue and the import disagree. */
+  conflicting: ComparedField[];
+}
+
+export interface CatalogueDiff {
+  added: CatalogueEntry[];
+  /** Entries only gaining values. */
+  updated: CatalogueChange[];
+  /** Entries with at least one value that differs; only overwritten when chosen. */
+  conflicts: CatalogueChange[];
+  unchanged: number;
+}
+
+/**
+ * Compares imported entries with the catalogue without changing it.
+ * Duplicate tracks within the import are merged, first values winning.
+ */
+export function diffCatalogue(catalogue: CatalogueEntry[], imported: CatalogueEntry[]): CatalogueDiff {
+  const index = indexCatalogue(catalogue);
+  const addedIndex = indexCatalogue([]);
+  const diff: CatalogueDiff = { added: [], updated: [], conflicts: [], unchanged: 0 };
+  const changes = new Map<string, CatalogueChange>();
+
+  for (const incoming of imported) {
+    const existing = findCatalogueEntry(index, incoming);
+    if (!existing) {
+      const earlier = findCatalogueEntry(addedIndex, incoming);
+      if (!earlier) {
+        // A copy, so merging later duplicates into it leaves the parsed entries as they were
+        const entry = { ...incoming };
+        diff.added.push(entry);
+        addToCatalogueIndex(addedIndex, entry);
+      } else {
+        for (const field of COMPARED_FIELDS) earlier[field] ||= incoming[field];
+      }
+      continue;
+    }
+    if (changes.has(existing.id)) continue;
+    const change: CatalogueChange = { existing, incoming, filled: [], conflicting: [] };
+    for (const field of COMPARED_FIELDS) {
+      const current = existing[field] ?? '';
+      const value = incoming[field] ?? '';
+      if (!value.trim() || sameValue(field, current, value)) continue;
+      (current.trim() ? change.conflicting : change.filled).push(field);
+    }
+    changes.set(existing.id, change);
+    if (change.conflicting.length) diff.conflicts.push(change);
+    else if (change.filled.length) diff.updated.push(change);
+    else diff.unchanged++;
+  }
+  return diff;
+}
+
+/**
+ * Applies a previewed import: adds the new tracks, fills in blank fields and
+ * overwrites conflicting values only for the catalogue entries chosen.
+ *
+ * @param overwrite Ids of catalogue entries whose conflicting values are replaced.
+ */
+export function applyCatalogueImport(
+  catalogue: CatalogueEntry[],
+  diff: CatalogueDiff,
+  overwrite: string[] = []
+): CatalogueEntry[] {
+  const now = new Date().toISOString();
+  const changes = new Map([...diff.updated, ...diff.conflicts].map(c => [c.existing.id, c]));
+  const merged = catalogue.map(entry => {
+    const change = changes.get(entry.id);
+    if (!change) return entry;
+    const fields = overwrite.includes(entry.id) ? [...change.filled, ...change.conflicting] : change.filled;
+    if (!fields.length) return entry;
+    const next = { ...entry, updatedAt: now };
+    for (const field of fields) next[field] = change.incoming[field];
+    return next;
+  });
+  return [...merged, ...diff.added.map(e => ({ ...e, updatedAt: now }))];
+}
@@ -0,0 +1,23 @@
+/** Why a conversion could not be carried out. */
+export type ConversionErrorCode =
+  | 'EMPTY_INPUT'
+  | 'MISSING_COLUMNS'
+  | 'AMBIGUOUS_DATE_FORMAT'
+  | 'INVALID_OPTION'
+  | 'UNSUPPORTED_FORMAT'
+  | 'SOURCE_UNAVAILABLE';
+
+/**
+ * Thrown by the converter for problems with the input or the options, as
+ * opposed to unexpected failures. Callers such as the API route map the
+ * code to a response status.
+ */
+export class ConversionError extends Error {
+  readonly code: ConversionErrorCode;
+
+  constructor(code: ConversionErrorCode, message: string) {
+    super(message);
+    this.name = 'ConversionError';
+    this.code = code;
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { decodeCsv, detectDialect, detectEncoding, parseCsv } from './csv-detection';
+
+const bytes = (...values: number[]) => new Uint8Array(values);
+
+describe('detectEncoding', () => {
+  it('trusts byte order marks', () => {
+    expect(detectEncoding(bytes(0xef, 0xbb, 0xbf, 0x41))).toEqual({ encoding: 'utf-8', bom: true });
+    expect(detectEncoding(bytes(0xff, 0xfe, 0x41, 0x00))).toEqual({ encoding: 'utf-16le', bom: true });
+  });
+
+  it('recognises UTF-16 without a byte order mark by its zero bytes', () => {
+    const data = new Uint8Array([...'Artist;Title'].flatMap(c => [c.charCodeAt(0), 0]));
+    expect(detectEncoding(data)).toEqual({ encoding: 'utf-16le', bom: false });
+  });
+
+  it('accepts valid UTF-8', () => {
+    expect(detectEncoding(new TextEncoder().encode('Ștefan Bănică'))).toEqual({ encoding: 'utf-8', bom: false });
+  });
+
+  it('picks the Central European code page for Romanian letters', () => {
+    // "Ștefan Bănică" in windows-1250, with cedilla forms: Ş=0xAA, ă=0xE3
+    const data = bytes(0xaa, 0x74, 0x65, 0x66, 0x61, 0x6e, 0x20, 0x42, 0xe3, 0x6e, 0x69, 0x63, 0xe3);
+    expect(detectEncoding(data).encoding).toBe('windows-1250');
+    expect(decodeCsv(data, 'windows-1250')).toBe('Ştefan Bănică');
+  });
+});
+
+describe('decodeCsv', () => {
+  it('drops the byte order mark', () => {
+    expect(decodeCsv(bytes(0xef, 0xbb, 0xbf, 0x41), 'utf-8')).toBe('A');
+  });
+});
+
+describe('detectDialect', () => {
+  it('finds the delimiter that splits every line alike', () => {
+    expect(detectDialect('Date;Artist;Title\n01.02.2024 10:00;A, B;C\n')).toEqual({ delimiter: ';', quote: '"' });
+    expect(detectDialect('Date\tArtist\tTitle\n1\t2\t3\n')).toEqual({ delimiter: '\t', quote: '"' });
+  });
+
+  it('finds a single-quote character', () => {
+    expect(detectDialect("'a','b'\n'c','d'\n")).toEqual({ delimiter: ',', quote: "'" });
+  });
+});
+
+describe('parseCsv', () => {
+  it('keeps delimiters, line breaks and doubled quotes inside quoted fields', () => {
+    const text = 'a;"b;c";"say ""hi"""\r\n\r\n"multi\nline";x;y\n';
+    expect(parseCsv(text, { delimiter: ';', quote: '"' })).toEqual([
+      ['a', 'b;c', 'say "hi"'],
+      ['multi\nline', 'x', 'y'],
+    ]);
+  });
+});
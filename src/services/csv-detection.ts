@@ -0,0 +1,205 @@
+/**
+ * Detection of the character encoding and CSV dialect (delimiter and quote
+ * character) of RadioDJ exports, plus a small CSV parser honouring them.
+ *
+ * RadioDJ writes whatever the Windows regional settings dictate, so the same
+ * station can produce `;`, `,` or tab separated files, and older installs
+ * write Windows-1250 rather than UTF-8.
+ */
+
+export type CsvEncoding =
+  | 'utf-8'
+  | 'utf-16le'
+  | 'utf-16be'
+  | 'windows-1250'
+  | 'windows-1252'
+  | 'iso-8859-2';
+
+export const CSV_ENCODINGS: { value: CsvEncoding; label: string }[] = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' },
+  { value: 'windows-1250', label: 'Windows-1250 (Central European)' },
+  { value: 'windows-1252', label: 'Windows-1252 (Western)' },
+  { value: 'iso-8859-2', label: 'ISO-8859-2 (Latin-2)' }
+];
+
+export const CSV_DELIMITERS: { value: string; label: string }[] = [
+  { value: ';', label: 'Semicolon (;)' },
+  { value: ',', label: 'Comma (,)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' }
+];
+
+export const CSV_QUOTES: { value: string; label: string }[] = [
+  { value: '"', label: 'Double quote (")' },
+  { value: "'", label: "Single quote (')" }
+];
+
+export interface EncodingDetection {
+  encoding: CsvEncoding;
+  /** Whether the data starts with a byte order mark. */
+  bom: boolean;
+}
+
+export interface CsvDialect {
+  delimiter: string;
+  quote: string;
+}
+
+const SAMPLE_BYTES = 64 * 1024;
+const SAMPLE_LINES = 50;
+
+// Letters we expect to see in Romanian metadata, in both cedilla and comma-below forms.
+const EXPECTED_LETTERS = /[ăâîșşțţĂÂÎȘŞȚŢéèáóöüäßçñ]/g;
+// Characters that show up when a Central European file is decoded as Western, or vice versa.
+const SUSPICIOUS_CHARS = /[\u0080-\u009f¤¦¨±²³´¹º¼½¾ª¸ˇ˘˝˛ãÃþÞ]/g;
+
+function isValidUtf8(bytes: Uint8Array): boolean {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return true;
+  } catch {
+    // A multi-byte sequence cut off by the sample boundary is not an error
+    if (bytes.length === SAMPLE_BYTES) {
+      for (let cut = 1; cut <= 3; cut++) {
+        try {
+          new TextDecoder('utf-8', { fatal: true }).decode(bytes.subarray(0, bytes.length - cut));
+          return true;
+        } catch { /* keep trimming */ }
+      }
+    }
+    return false;
+  }
+}
+
+function scoreDecoding(bytes: Uint8Array, encoding: CsvEncoding): number {
+  const text = new TextDecoder(encoding).decode(bytes);
+  const expected = text.match(EXPECTED_LETTERS)?.length ?? 0;
+  const suspicious = text.match(SUSPICIOUS_CHARS)?.length ?? 0;
+  return expected - suspicious * 2;
+}
+
+/**
+ * Detects the encoding of raw file bytes: byte order marks first, then
+ * UTF-16 by the pattern of zero bytes, then strict UTF-8 validation, and
+ * finally the single-byte code page whose decoding looks most plausible.
+ */
+export function detectEncoding(data: Uint8Array): EncodingDetection {
+  if (data[0] === 0xef && data[1] === 0xbb && data[2] === 0xbf) return { encoding: 'utf-8', bom: true };
+  if (data[0] === 0xff && data[1] === 0xfe) return { encoding: 'utf-16le', bom: true };
+  if (data[0] === 0xfe && data[1] === 0xff) return { encoding: 'utf-16be', bom: true };
+
+  const bytes = data.subarray(0, SAMPLE_BYTES);
+  let evenZeros = 0, oddZeros = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    if (bytes[i] === 0) i % 2 === 0 ? evenZeros++ : oddZeros++;
+  }
+  const half = bytes.length / 2;
+  if (oddZeros > half * 0.3 && evenZeros < half * 0.05) return { encoding: 'utf-16le', bom: false };
+  if (evenZeros > half * 0.3 && oddZeros < half * 0.05) return { encoding: 'utf-16be', bom: false };
+
+  if (isValidUtf8(bytes)) return { encoding: 'utf-8', bom: false };
+
+  // Bytes 0x80-0x9F are C1 control characters in ISO-8859-2 but letters
+  // and punctuation in the Windows code pages.
+  const candidates: CsvEncoding[] = bytes.some(b => b >= 0x80 && b <= 0x9f)
+    ? ['windows-1250', 'windows-1252']
+    : ['windows-1250', 'iso-8859-2', 'windows-1252'];
+  let best = candidates[0];
+  let bestScore = -Infinity;
+  for (const encoding of candidates) {
+    const score = scoreDecoding(bytes, encoding);
+    if (score > bestScore) { best = encoding; bestScore = score; }
+  }
+  return { encoding: best, bom: false };
+}
+
+/** Decodes file bytes to text, dropping any byte order mark. */
+export function decodeCsv(data: Uint8Array, encoding: CsvEncoding): string {
+  return new TextDecoder(encoding).decode(data).replace(/^\uFEFF/, '');
+}
+
+/**
+ * Detects the delimiter and quote character from the first lines of the
+ * text. The delimiter that splits the sampled lines into the most fields,
+ * with the same count on every line, wins.
+ */
+export function detectDialect(text: string): CsvDialect {
+  const sample = text.replace(/^\uFEFF/, '').split(/\r\n|\n|\r/).filter(l => l.trim()).slice(0, SAMPLE_LINES).join('\n');
+
+  const quote = CSV_QUOTES
+    .map(q => {
+      // Count quotes that open a field: at line start or right after a delimiter candidate
+      const opening = new RegExp(`(^|[;,\\t|])${q.value}`, 'gm');
+      return { quote: q.value, count: sample.match(opening)?.length ?? 0 };
+    })
+    .sort((a, b) => b.count - a.count)[0];
+  const quoteChar = quote.count > 0 ? quote.quote : '"';
+
+  let best: CsvDialect & { fields: number; consistent: boolean } | null = null;
+  for (const { value: delimiter } of CSV_DELIMITERS) {
+    const rows = parseCsv(sample, { delimiter, quote: quoteChar });
+    if (!rows.length) continue;
+    const counts = rows.map(r => r.length);
+    const fields = counts[0];
+    const consistent = counts.every(c => c === fields);
+    if (fields < 2) continue;
+    const better = !best
+      || (consistent && !best.consistent)
+      || (consistent === best.consistent && fields > best.fields);
+    if (better) best = { delimiter, quote: quoteChar, fields, consistent };
+  }
+  return { delimiter: best?.delimiter ?? ';', quote: quoteChar };
+}
+
+/**
+ * Parses delimited text into rows of string cells. Quoted fields
+ * may contain delimiters, line breaks and doubled quote characters. Blank
+ * lines are skipped.
+ */
+export function parseCsv(text: string, dialect: CsvDialect): string[][] {
+  const { delimiter, quote } = dialect;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let fieldStarted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+    fieldStarted = false;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === quote) {
+        if (text[i + 1] === quote) { field += quote; i++; }
+        else inQuotes = false;
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+    if (ch === quote && !fieldStarted) {
+      inQuotes = true;
+      fieldStarted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+      fieldStarted = false;
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += ch;
+      fieldStarted = true;
+    }
+  }
+  if (field !== '' || row.length) endRow();
+  return rows;
+}
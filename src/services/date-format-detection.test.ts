@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { describeAmbiguousDates, detectDateFormat, parseDateAs, splitDateTime } from './date-format-detection';
+
+describe('splitDateTime', () => {
+  it('splits at the first space only', () => {
+    expect(splitDateTime('03/04/2026 10:15:00 PM')).toEqual(['03/04/2026', '10:15:00 PM']);
+    expect(splitDateTime('03/04/2026')).toEqual(['03/04/2026', '']);
+  });
+});
+
+describe('parseDateAs', () => {
+  it('reads real dates only', () => {
+    expect(parseDateAs('03/04/2026', 'd/M/yyyy')).toEqual(new Date(2026, 3, 3));
+    expect(parseDateAs('13/25/2026', 'M/d/yyyy')).toBeNull();
+    expect(parseDateAs('2026-04-03', 'd.M.yyyy')).toBeNull();
+  });
+});
+
+describe('detectDateFormat', () => {
+  it('picks the only format reading every date', () => {
+    expect(detectDateFormat(['25.04.2026 10:00:00', '26.04.2026 11:00:00'])).toMatchObject({ format: 'd.M.yyyy', evidence: 'dates' });
+    expect(detectDateFormat(['04/25/2026 10:00:00', '04/26/2026 11:00:00'])).toMatchObject({ format: 'M/d/yyyy', evidence: 'dates' });
+  });
+
+  it('settles ambiguous dates by keeping the plays in order', () => {
+    const days = ['03/04/2026 23:00', '04/04/2026 00:10', '05/04/2026 00:20'];
+    expect(detectDateFormat(days)).toMatchObject({ format: 'd/M/yyyy', evidence: 'order', candidates: ['d/M/yyyy', 'M/d/yyyy'] });
+  });
+
+  it('takes AM/PM times as US dates when the order does not tell', () => {
+    expect(detectDateFormat(['03/04/2026 10:00 PM', '03/04/2026 11:00 PM'])).toMatchObject({ format: 'M/d/yyyy', evidence: 'clock', clock: '12h' });
+  });
+
+  it('leaves undecidable dates to the user', () => {
+    const detection = detectDateFormat(['03/04/2026 10:00', '03/04/2026 11:00']);
+    expect(detection).toMatchObject({ format: null, example: '03/04/2026' });
+    expect(describeAmbiguousDates(detection)).toBe(
+      'Dates such as "03/04/2026" can be read as dd/MM/yyyy (day first) or MM/dd/yyyy (US); choose the date format.'
+    );
+  });
+
+  it('treats dates reading the same either way as decided', () => {
+    expect(detectDateFormat(['01/01/2026 10:00']).format).toBe('d/M/yyyy');
+  });
+
+  it('finds nothing in an empty column', () => {
+    expect(detectDateFormat(['', ' '])).toEqual({ format: null, candidates: [], clock: '24h' });
+  });
+});
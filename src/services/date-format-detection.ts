@@ -0,0 +1,114 @@
+import { parse, isValid } from 'date-fns';
+
+/**
+ * Decides how the dates of a whole RadioDJ export are written. RadioDJ uses
+ * the Windows short date format, so "03/04/2026" is 3 April from a machine
+ * set up for Romania or the UK and 4 March from an American one. Reading
+ * each row on its own mixes both up within one file; instead every date in
+ * the column is tried against each format. When several formats read all of
+ * them, the one keeping the plays in chronological order wins, then the one
+ * going with the clock (AM/PM times come with US dates). Anything still
+ * undecided is left to the user.
+ */
+
+export type DateFormat = 'd.M.yyyy' | 'd/M/yyyy' | 'M/d/yyyy' | 'yyyy-MM-dd';
+
+export const DATE_FORMATS: { value: DateFormat; label: string }[] = [
+  { value: 'd.M.yyyy', label: 'dd.MM.yyyy (Romanian)' },
+  { value: 'd/M/yyyy', label: 'dd/MM/yyyy (day first)' },
+  { value: 'M/d/yyyy', label: 'MM/dd/yyyy (US)' },
+  { value: 'yyyy-MM-dd', label: 'yyyy-MM-dd (ISO)' }
+];
+
+export type ClockFormat = '24h' | '12h';
+
+/** What settled the format: the only one reading every date, the play order, or the clock. */
+export type DateFormatEvidence = 'dates' | 'order' | 'clock';
+
+export interface DateFormatDetection {
+  /** The format for the whole file; `null` when no format or several fit equally well. */
+  format: DateFormat | null;
+  /** Formats reading the most dates, in {@link DATE_FORMATS} order. */
+  candidates: DateFormat[];
+  evidence?: DateFormatEvidence;
+  clock: ClockFormat;
+  /** A date the candidates read differently, for asking the user. */
+  example?: string;
+}
+
+const DAY = 86400000;
+
+const MERIDIEM = /\s*[ap]\.?\s?m\.?$/i;
+
+/** Splits "Date/Time Played" at the first space into the date and time text. */
+export function splitDateTime(text: string): [string, string] {
+  const [date, time = ''] = text.includes(' ') ? text.split(/ (.+)/) : [text];
+  return [date, time];
+}
+
+/** Reads a date in one format; `null` unless it is a real date after 1900. */
+export function parseDateAs(text: string, dateFormat: DateFormat): Date | null {
+  const date = parse(text, dateFormat, new Date());
+  return isValid(date) && date.getFullYear() > 1900 ? date : null;
+}
+
+/** Whether the column's times carry AM/PM. */
+function detectClock(times: string[]): ClockFormat {
+  const marked = times.filter(t => MERIDIEM.test(t)).length;
+  return marked > 0 && marked >= times.length / 2 ? '12h' : '24h';
+}
+
+/** Days the plays jump back and forth in total when read in a format; logs run forward in small steps. */
+function disorder(texts: string[], dateFormat: DateFormat): number {
+  const read = new Map<string, number | undefined>();
+  let total = 0;
+  let previous: number | null = null;
+  for (const text of texts) {
+    if (!read.has(text)) read.set(text, parseDateAs(text, dateFormat)?.getTime());
+    const time = read.get(text);
+    if (time === undefined) continue;
+    if (previous !== null) total += Math.abs(time - previous) / DAY;
+    previous = time;
+  }
+  return total;
+}
+
+/**
+ * Picks one date format for a whole column of "Date/Time Played" values,
+ * in file order.
+ */
+export function detectDateFormat(dateTimeTexts: string[]): DateFormatDetection {
+  const split = dateTimeTexts.map(t => splitDateTime(t.trim())).filter(([date]) => date);
+  const dates = split.map(([date]) => date);
+  const clock = detectClock(split.map(([, time]) => time).filter(Boolean));
+  const distinct = Array.from(new Set(dates));
+
+  const counts = DATE_FORMATS.map(({ value }) => distinct.filter(d => parseDateAs(d, value)).length);
+  const most = Math.max(0, ...counts);
+  if (!most) return { format: null, candidates: [], clock };
+  const candidates = DATE_FORMATS.filter((_, i) => counts[i] === most).map(f => f.value);
+  // Dates such as 01/01/2026 read the same either way
+  const example = distinct.find(d => new Set(candidates.map(f => parseDateAs(d, f)?.getTime())).size > 1);
+  if (candidates.length === 1 || !example) return { format: candidates[0], candidates, evidence: 'dates', clock };
+
+  const scores = candidates.map(f => disorder(dates, f));
+  const best = Math.min(...scores);
+  if (scores.filter(s => s === best).length === 1) {
+    return { format: candidates[scores.indexOf(best)], candidates, evidence: 'order', clock };
+  }
+  if (clock === '12h' && candidates.includes('M/d/yyyy')) {
+    return { format: 'M/d/yyyy', candidates, evidence: 'clock', clock };
+  }
+  return { format: null, candidates, clock, example };
+}
+
+/** The label of a date format, e.g. "dd.MM.yyyy (Romanian)". */
+export function dateFormatLabel(dateFormat: DateFormat): string {
+  return DATE_FORMATS.find(f => f.value === dateFormat)?.label ?? dateFormat;
+}
+
+/** Explains an undecided detection, for error messages and the app. */
+export function describeAmbiguousDates(detection: DateFormatDetection): string {
+  const formats = detection.candidates.map(dateFormatLabel).join(' or ');
+  return `Dates such as "${detection.example}" can be read as ${formats}; choose the date format.`;
+}
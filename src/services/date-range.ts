@@ -0,0 +1,65 @@
+import { endOfDay, isValid, parse, startOfDay } from 'date-fns';
+import { ConversionError } from './conversion-error';
+import { playedAt, type ReportRow } from './excel-converter';
+import { toMinutes } from './show-schedule';
+
+/**
+ * Reporting period; both ends are whole days and inclusive. The optional
+ * time-of-day window applies to every day in the period: `fromTime` is
+ * inclusive, `toTime` exclusive, and a window whose end is not after its
+ * start runs past midnight, as in the show schedule.
+ */
+export interface DateRange {
+  from?: Date;
+  to?: Date;
+  /** `HH:mm` */
+  fromTime?: string;
+  /** `HH:mm` */
+  toTime?: string;
+}
+
+/**
+ * Parses a `yyyy-MM-dd` bound as used by the API and CLI.
+ * Throws a {@link ConversionError} for malformed dates.
+ */
+export function parseDateBound(value: string, name: string): Date {
+  const date = parse(value, 'yyyy-MM-dd', new Date());
+  if (!isValid(date)) {
+    throw new ConversionError('INVALID_OPTION', `"${name}" must be a date in yyyy-MM-dd format, got "${value}".`);
+  }
+  return date;
+}
+
+function timeBound(value: string | undefined, name: string, fallback: number): number {
+  if (!value) return fallback;
+  const minutes = toMinutes(value);
+  if (minutes === null) {
+    throw new ConversionError('INVALID_OPTION', `"${name}" must be a time in HH:mm format, got "${value}".`);
+  }
+  return minutes;
+}
+
+/**
+ * Keeps the rows played within the range and time window. Rows whose date or
+ * time did not parse are kept so validation still reports them rather than
+ * losing them silently.
+ */
+export function filterByDateRange(rows: ReportRow[], range: DateRange = {}): ReportRow[] {
+  const from = range.from ? startOfDay(range.from).getTime() : -Infinity;
+  const to = range.to ? endOfDay(range.to).getTime() : Infinity;
+  if (from > to) throw new ConversionError('INVALID_OPTION', 'The start of the date range is after its end.');
+
+  const hasWindow = !!(range.fromTime || range.toTime);
+  const windowStart = timeBound(range.fromTime, 'fromTime', 0);
+  const windowEnd = timeBound(range.toTime, 'toTime', 24 * 60);
+  const inWindow = (minute: number) => (windowEnd > windowStart
+    ? minute >= windowStart && minute < windowEnd
+    : minute >= windowStart || minute < windowEnd);
+
+  return rows.filter(row => {
+    const at = playedAt(row);
+    if (!at) return true;
+    if (at.getTime() < from || at.getTime() > to) return false;
+    return !hasWindow || !(row.timeVal instanceof Date) || inWindow(at.getHours() * 60 + at.getMinutes());
+  });
+}
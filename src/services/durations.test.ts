@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import type { ReportRow } from './excel-converter';
+import { assignAirtime, formatDuration, parseDurationSeconds, roundDurations, splitDuration } from './durations';
+import { createBlankReportRow } from './report-editing';
+
+describe('parseDurationSeconds', () => {
+  it('reads seconds and clock durations with fractions', () => {
+    expect(parseDurationSeconds('205.48')).toBe(205.48);
+    expect(parseDurationSeconds('3:25,5')).toBe(205.5);
+    expect(parseDurationSeconds('1:02:03')).toBe(3723);
+  });
+
+  it('rejects unknown forms and out-of-range parts', () => {
+    expect(parseDurationSeconds('3m25s')).toBeNull();
+    expect(parseDurationSeconds('3:60')).toBeNull();
+    expect(parseDurationSeconds('1:60:00')).toBeNull();
+  });
+});
+
+describe('splitDuration', () => {
+  it('rounds to whole seconds by the policy', () => {
+    expect(splitDuration(205.5)).toEqual({ mins: 3, secs: 26 });
+    expect(splitDuration(205.5, 'floor')).toEqual({ mins: 3, secs: 25 });
+    expect(splitDuration(205.48, 'ceil')).toEqual({ mins: 3, secs: 26 });
+    expect(splitDuration(239.6)).toEqual({ mins: 4, secs: 0 });
+  });
+});
+
+describe('formatDuration', () => {
+  it('writes minutes and seconds', () => {
+    expect(formatDuration(205)).toBe('3:25');
+    expect(formatDuration(65.48)).toBe('1:05.48');
+  });
+});
+
+const play = (minutes: number, seconds: number, duration?: number): ReportRow => ({
+  ...createBlankReportRow(2),
+  dateVal: new Date(2024, 0, 8),
+  timeVal: new Date(1899, 11, 30, 10, minutes, seconds),
+  durationSeconds: duration,
+  utcOffset: 120,
+});
+
+describe('assignAirtime', () => {
+  it('runs each play until the next one starts, at most its duration', () => {
+    const rows = assignAirtime([play(0, 0, 200), play(3, 0, 200), play(10, 0, 30)]);
+    expect(rows.map(r => r.airtimeSeconds)).toEqual([180, 200, undefined]);
+  });
+
+  it('orders plays by time and lets plays logged together run to the next later one', () => {
+    const rows = assignAirtime([play(3, 0, 200), play(0, 0, 200), play(0, 0, 100)]);
+    expect(rows.map(r => r.airtimeSeconds)).toEqual([undefined, 180, 100]);
+  });
+
+  it('ignores plays without a time', () => {
+    const rows = assignAirtime([play(0, 0, 200), { ...play(1, 0, 30), timeVal: '' }, play(3, 0, 200)]);
+    expect(rows.map(r => r.airtimeSeconds)).toEqual([180, undefined, undefined]);
+  });
+});
+
+describe('roundDurations', () => {
+  it('rounds the nominal duration or, for effective durations, the airtime', () => {
+    const rows = [{ ...play(0, 0, 200.4), airtimeSeconds: 180.6 }, play(5, 0, 30.5)];
+    expect(roundDurations(rows, 'round').map(r => [r.mins, r.secs])).toEqual([[3, 20], [0, 31]]);
+    expect(roundDurations(rows, 'round', 'effective').map(r => [r.mins, r.secs])).toEqual([[3, 1], [0, 31]]);
+  });
+});
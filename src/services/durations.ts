@@ -0,0 +1,168 @@
+import type { ReportRow } from './excel-converter';
+import { playedInstant } from './station-time';
+
+/**
+ * Reads the "Duration" column in the forms RadioDJ writes depending on
+ * version and regional settings: "3:25", "00:03:25", "03:25.480" and
+ * "03:25,480" with milliseconds, or plain seconds such as "205.48" and
+ * "205,48". The exact length is kept on the row and rounded to whole
+ * seconds for "MINUTE DIFUZATE" and "SECUNDE DIFUZATE" by the profile's
+ * rounding policy.
+ *
+ * Tracks are often faded out or cut short by the next item, so a profile can
+ * report the effective airtime instead: the time until the next play
+ * started, never more than the track's own duration.
+ */
+
+export type DurationRounding = 'round' | 'floor' | 'ceil';
+
+export const DURATION_ROUNDINGS: { value: DurationRounding; label: string }[] = [
+  { value: 'round', label: 'Round to the nearest second' },
+  { value: 'floor', label: 'Round down (drop fractions)' },
+  { value: 'ceil', label: 'Round up (started seconds count)' }
+];
+
+export const DEFAULT_DURATION_ROUNDING: DurationRounding = 'round';
+
+/** Whether the report gives the track's duration or the time it was actually on air. */
+export type DurationSource = 'nominal' | 'effective';
+
+export const DURATION_SOURCES: { value: DurationSource; label: string }[] = [
+  { value: 'nominal', label: 'Track duration' },
+  { value: 'effective', label: 'Airtime until the next play' }
+];
+
+export const DEFAULT_DURATION_SOURCE: DurationSource = 'nominal';
+
+const NUMBER = '\\d+(?:[.,]\\d+)?';
+
+// "m:ss" or "h:mm:ss", the seconds possibly with a fraction
+const CLOCK_DURATION = new RegExp(`^(?:(\\d+):)?(\\d+):(${NUMBER})$`);
+
+const SECONDS_DURATION = new RegExp(`^${NUMBER}$`);
+
+const toNumber = (text: string) => Number(text.replace(',', '.'));
+
+/**
+ * Length of a duration text in seconds, fractions included; `null` when it
+ * matches no known form or has 60 or more seconds (or minutes, with hours).
+ */
+export function parseDurationSeconds(text: string): number | null {
+  const value = text.trim();
+  if (SECONDS_DURATION.test(value)) return toNumber(value);
+  const clock = CLOCK_DURATION.exec(value);
+  if (!clock) return null;
+  const [, hours, minutes, seconds] = clock;
+  if (toNumber(seconds) >= 60 || (hours !== undefined && Number(minutes) >= 60)) return null;
+  return Number(hours ?? 0) * 3600 + Number(minutes) * 60 + toNumber(seconds);
+}
+
+/** Whole minutes and seconds of a length in seconds, rounded by the policy. */
+export function splitDuration(seconds: number, rounding: DurationRounding = DEFAULT_DURATION_ROUNDING) {
+  // Milliseconds first, so 205.48 read from text is not ceiled from 205.48000000000002
+  const whole = Math[rounding](Math.round(seconds * 1000) / 1000);
+  return { mins: Math.floor(whole / 60), secs: whole % 60 };
+}
+
+/** "3:25" or "3:25.48" for a length in seconds. */
+export function formatDuration(seconds: number): string {
+  const total = Math.round(seconds * 1000) / 1000;
+  const mins = Math.floor(total / 60);
+  const secs = Math.round((total - mins * 60) * 1000) / 1000;
+  return `${mins}:${secs < 10 ? '0' : ''}${secs}`;
+}
+
+/**
+ * Sets the airtime of each play with a duration: the time until the next
+ * later play started, capped at the duration. The last play, and plays
+ * without a time, keep none. Must run on all parsed rows, before any are
+ * filtered out, since a jingle left out of the report still ends the track
+ * before it.
+ */
+export function assignAirtime(rows: ReportRow[]): ReportRow[] {
+  // A play without a time would count as starting at midnight
+  const starts = rows.map(row => (row.timeVal instanceof Date ? playedInstant(row) : null));
+  const order = rows.map((_, i) => i)
+    .filter(i => starts[i] !== null)
+    .sort((a, b) => starts[a]! - starts[b]! || a - b);
+
+  const result = rows.slice();
+  let nextStart: number | null = null;
+  let start: number | null = null;
+  for (const i of order.reverse()) {
+    // Plays logged at the same moment all run until the next later one
+    if (starts[i] !== start) {
+      nextStart = start;
+      start = starts[i];
+    }
+    const nominal = rows[i].durationSeconds;
+    if (typeof nominal === 'number' && nextStart !== null) {
+      result[i] = { ...rows[i], airtimeSeconds: Math.min(nominal, (nextStart - start!) / 1000) };
+    }
+  }
+  return result;
+}
+
+const startOf = (row: ReportRow) => (row.timeVal instanceof Date ? playedInstant(row) : null);
+
+/** Indexes of the plays starting last before `start`, other than `skip`. */
+function playsBefore(rows: ReportRow[], start: number | null, skip: number): number[] {
+  if (start === null) return [];
+  let latest = -Infinity;
+  let indexes: number[] = [];
+  rows.forEach((row, i) => {
+    const other = startOf(row);
+    if (i === skip || other === null || other >= start || other < latest) return;
+    if (other > latest) indexes = [];
+    latest = other;
+    indexes.push(i);
+  });
+  return indexes;
+}
+
+/**
+ * Measures airtime again around a play that moved, e.g. edited in the
+ * preview: its own, and that of the plays just before its old and its new
+ * start. Other rows are left as they are.
+ *
+ * @param before The rows before the play moved.
+ * @param after The same rows after it moved.
+ * @param index The play that moved.
+ */
+export function reassignAirtimeAround(before: ReportRow[], after: ReportRow[], index: number): ReportRow[] {
+  const affected = new Set([
+    index,
+    ...playsBefore(before, startOf(before[index]), index),
+    ...playsBefore(after, startOf(after[index]), index),
+  ]);
+  const starts = after.map(startOf);
+  const result = after.slice();
+  for (const i of affected) {
+    const start = starts[i];
+    let nextStart: number | null = null;
+    for (const other of starts) {
+      if (start !== null && other !== null && other > start && (nextStart === null || other < nextStart)) nextStart = other;
+    }
+    const nominal = after[i].durationSeconds;
+    result[i] = {
+      ...after[i],
+      airtimeSeconds: typeof nominal === 'number' && nextStart !== null ? Math.min(nominal, (nextStart - start!) / 1000) : undefined,
+    };
+  }
+  return result;
+}
+
+/**
+ * Sets the minutes and seconds of each row by the rounding policy, from
+ * its exact duration or, for effective durations, its airtime where known.
+ */
+export function roundDurations(
+  rows: ReportRow[],
+  rounding: DurationRounding,
+  source: DurationSource = DEFAULT_DURATION_SOURCE
+): ReportRow[] {
+  return rows.map(row => {
+    const seconds = source === 'effective' ? row.airtimeSeconds ?? row.durationSeconds : row.durationSeconds;
+    return typeof seconds === 'number' ? { ...row, ...splitDuration(seconds, rounding) } : row;
+  });
+}
@@ -1,31 +1,295 @@
 import * as XLSX from 'xlsx';
 import { format, parse, isValid, getHours, getMinutes, getSeconds } from 'date-fns';
+import { detectDialect, parseCsv } from './csv-detection';
+import {
+  describeAmbiguousDates, detectDateFormat, parseDateAs, splitDateTime,
+  type ClockFormat, type DateFormat, type DateFormatDetection,
+} from './date-format-detection';
+import { DEFAULT_PROFILE, applyTransform, type MappingProfile, type ReportField } from './mapping-profiles';
+import { ConversionError } from './conversion-error';
+import { filterByDateRange, type DateRange } from './date-range';
+import { applyRowFilters, type FilterResult } from './row-filters';
+import { EMPTY_SCHEDULE, assignShows, type ShowSchedule } from './show-schedule';
+import { enrichRows, type CatalogueEntry } from './track-catalogue';
+import { DEFAULT_PERFORMER_RULES, assignPerformers } from './performers';
+import { DEFAULT_CREDIT_RULES, assignAuthors } from './author-credits';
+import { DEFAULT_TIME_ZONE, assignUtcOffsets, type DstTransition } from './station-time';
+import {
+  DEFAULT_DURATION_ROUNDING, DEFAULT_DURATION_SOURCE, assignAirtime, parseDurationSeconds, roundDurations, splitDuration,
+  type DurationRounding, type DurationSource,
+} from './durations';
+import type { MatchDecision } from './fuzzy-match';
+import { SHEET_GROUPINGS, groupReportRows, type SheetGrouping } from './sheet-grouping';
+import { SUMMARY_SHEET_NAME, buildSummarySheet } from './report-summary';
+import { VALIDATION_SHEET_NAME, buildValidationSheet, validateReportRows } from './report-validation';
+
+export interface ParseOptions {
+  /** Field delimiter; detected from the data when omitted. */
+  delimiter?: string;
+  /** Quote character; detected from the data when omitted. */
+  quote?: string;
+  /** Date format of "Date/Time Played"; detected from the whole column when omitted. */
+  dateFormat?: DateFormat;
+  /** File name recorded on every parsed row. */
+  sourceFile?: string;
+  /** Called every thousand rows with the rows parsed so far and the total. */
+  onProgress?: (parsed: number, total: number) => void;
+  /** Called with the date format detected from the whole column, before any row is parsed. */
+  onDateFormat?: (detection: DateFormatDetection) => void;
+}
+
+export interface ConvertOptions extends ParseOptions {
+  /** Column layout of the report. Defaults to the built-in profile. */
+  profile?: MappingProfile;
+  /** Output file format. Defaults to legacy XLS. CSV output uses the input delimiter. */
+  format?: OutputFormat;
+  /** Appends a sheet listing validation issues (not written for CSV output). */
+  includeValidationSheet?: boolean;
+  /** Appends the "SUMAR" statistics sheet (not written for CSV output). */
+  includeSummarySheet?: boolean;
+  /** Programme grid used to fill in the show name. */
+  schedule?: ShowSchedule;
+  /** Track catalogue used to fill in catalogue number, label, country and the like. */
+  catalogue?: CatalogueEntry[];
+  /** Confirmed and rejected matches from the review screen, used to match the catalogue. */
+  decisions?: MatchDecision[];
+  /** Reporting period; rows played outside it are left out. */
+  dateRange?: DateRange;
+  /** Splits the report into a sheet per day, week or month. Needs a workbook format. */
+  grouping?: SheetGrouping;
+  /** IANA time zone the station logs in. Defaults to Europe/Bucharest. */
+  timeZone?: string;
+}
+
+/** One RadioDJ play, parsed into the fields the report columns draw from. */
+export interface ReportRow extends Record<ReportField, unknown> {
+  /**
+   * 1-based row number in the source file; the header is row 1. Rows read
+   * from the RadioDJ database carry their `history` ID instead.
+   */
+  sourceRow: number;
+  /** Name of the source file, set when several files are converted together. */
+  sourceFile?: string;
+  /** Original "Date/Time Played" text, kept for error reporting. */
+  dateTimeText: string;
+  /** Original "Duration" text, kept for error reporting. */
+  durationText: string;
+  /** Exact duration in seconds, fractions included; `mins` and `secs` are it rounded. */
+  durationSeconds?: number;
+  /** Seconds until the next play started, at most `durationSeconds`; unset for the last play. */
+  airtimeSeconds?: number;
+  /** Minutes the station's clock was ahead of UTC at the play, from the station time zone. */
+  utcOffset?: number;
+  /** Set when the logged time falls in an hour repeated or skipped by a daylight saving change. */
+  dstTransition?: DstTransition;
+  dateVal: Date | string;
+  /** Show on air, filled from the programme schedule. */
+  show: string;
+  timeVal: Date | string;
+  mins: number | string;
+  secs: number | string;
+  title: string;
+  copy: string;
+  composer: string;
+  artist: string;
+  album: string;
+  pub: string;
+  year: number | string;
+  trackType: string;
+  category: string;
+  isrc: string;
+  /** Catalogue fields, filled from the track catalogue during conversion. */
+  catalogNumber: string;
+  label: string;
+  country: string;
+  ensemble: string;
+  recordingType: string;
+  /** Performers credited in the artist field, groups counting as one. */
+  performerCount: number | string;
+  /** Authors split from the credit fields by the profile's credit rules. */
+  musicAuthor: string;
+  lyricsAuthor: string;
+}
+
+export type OutputFormat = 'xls' | 'xlsx' | 'ods' | 'csv';
+
+export const OUTPUT_FORMATS: Record<OutputFormat, { label: string; extension: string; mimeType: string }> = {
+  xls: { label: 'XLS', extension: 'xls', mimeType: 'application/vnd.ms-excel' },
+  xlsx: { label: 'XLSX', extension: 'xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+  ods: { label: 'ODS', extension: 'ods', mimeType: 'application/vnd.oasis.opendocument.spreadsheet' },
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv' }
+};
+
+/** Name of the report sheet when the rows are not split by date. */
+export const SHEET_NAME = 'Sheet1';
+
+/** A named group of rows written to its own worksheet. */
+export interface ReportSheet {
+  name: string;
+  rows: ReportRow[];
+}
+
+/** Years are written as numbers, as the spreadsheet parser used to do. */
+export function toYear(value: string): number | string {
+  const txt = value.trim();
+  return /^\d{4}$/.test(txt) ? Number(txt) : txt;
+}
+
+/** RadioDJ `track_type` codes, as exported numerically by some versions. */
+const TRACK_TYPE_NAMES: Record<string, string> = {
+  '0': 'Music',
+  '1': 'Jingle',
+  '2': 'Sweeper',
+  '3': 'Voice Over',
+  '4': 'Commercial',
+  '5': 'Internet Stream',
+  '6': 'Other',
+  '7': 'Variable Duration File',
+  '8': 'Podcast',
+  '9': 'Request',
+  '10': 'News',
+  '11': 'Playlist Event',
+  '12': 'File By Date',
+  '13': 'Newest From Folder',
+  '14': 'Teaser'
+};
+
+/** Track type as a name, translating numeric RadioDJ codes. */
+export function trackTypeName(value: string): string {
+  const txt = value.trim();
+  return TRACK_TYPE_NAMES[txt] ?? txt;
+}
 
 /**
- * Converts a CSV file content (as string) to XLS format (as Buffer).
- * Splits "Date/Time Played" into separate date and time,
- * splits "Duration" into minutes and seconds,
- * renames columns to Romanian headers in uppercase,
- * inserts blank columns,
- * reorders columns,
- * and applies font size 10 to all cells.
- *
- * @param csvData The CSV data as a string.
- * @returns A promise that resolves to the XLS data as a Buffer.
+ * Combined play date and time in the runtime's time zone, for wall-clock
+ * comparisons; `null` when the date did not parse. Use `playedInstant` to
+ * order plays.
+ */
+export function playedAt(row: ReportRow): Date | null {
+  if (!(row.dateVal instanceof Date)) return null;
+  const at = new Date(row.dateVal);
+  if (row.timeVal instanceof Date) {
+    at.setHours(row.timeVal.getHours(), row.timeVal.getMinutes(), row.timeVal.getSeconds(), 0);
+  }
+  return at;
+}
+
+/**
+ * Makes a valid, unique worksheet name: Excel limits names to 31 characters
+ * and forbids `[]:*?/\`.
+ */
+export function toSheetName(name: string, used: Set<string>): string {
+  const base = name.replace(/[\[\]:*?/\\]/g, '_').trim().slice(0, 31) || SHEET_NAME;
+  let candidate = base;
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    const suffix = ` (${n})`;
+    candidate = base.slice(0, 31 - suffix.length) + suffix;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+/**
+ * Parses the date half of "Date/Time Played"; `null` when it does not match.
+ * Without a format, known formats are tried in turn, which suits single
+ * values such as edited cells but not whole files.
+ */
+export function parseDatePart(dateStr: string, dateFormat?: DateFormat): Date | null {
+  if (dateFormat) return parseDateAs(dateStr, dateFormat);
+  const dateFmts = ['M/d/yyyy','MM/dd/yyyy','yyyy-MM-dd','dd.MM.yyyy','d.M.yyyy'];
+  for (const fmt of dateFmts) {
+    const d = parse(dateStr, fmt, new Date());
+    if (isValid(d) && d.getFullYear() > 1900) return d;
+  }
+  return null;
+}
+
+/**
+ * Parses the time half of "Date/Time Played" onto 1970-01-01; `null` when
+ * unparseable. A 12-hour clock needs AM/PM and a 24-hour clock rejects it.
  */
-export async function convertCsvToXls(csvData: string): Promise<Buffer> {
-  // 1. Parse CSV Data (semicolon delimiter)
-  const workbook = XLSX.read(csvData, { type: 'string', FS: ';' });
-  const sheetName = workbook.SheetNames[0];
-  const ws = workbook.Sheets[sheetName];
-  const raw = XLSX.utils.sheet_to_json(ws, { header: 1, defval: '' }) as any[][];
-  if (!raw.length) throw new Error('CSV data is empty or invalid.');
+export function parseTimePart(timeStr: string, clock?: ClockFormat): Date | null {
+  const timeFmts = clock === '12h' ? ['h:mm:ss a','hh:mm:ss a','h:mm a']
+    : clock === '24h' ? ['H:mm:ss','HH:mm:ss','H:mm']
+    : ['h:mm:ss a','hh:mm:ss a','H:mm:ss','HH:mm:ss','h:mm a','H:mm'];
+  const base = format(new Date(1970, 0, 1), 'yyyy-MM-dd');
+  for (const fmt of timeFmts) {
+    const t = parse(`${base} ${timeStr}`, `yyyy-MM-dd ${fmt}`, new Date());
+    if (isValid(t)) return t;
+  }
+  if (clock !== '12h' && /^\d{1,2}:\d{1,2}(:\d{1,2})?$/.test(timeStr)) {
+    const [h,m,s=0] = timeStr.split(':').map(Number);
+    const tmp = new Date(1970, 0, 1);
+    tmp.setHours(h, m, s, 0);
+    if (isValid(tmp)) return tmp;
+  }
+  return null;
+}
+
+/**
+ * Splits a duration such as `mm:ss`, `hh:mm:ss.fff` or plain seconds into
+ * whole minutes and seconds; `null` when unparseable.
+ */
+export function parseDuration(
+  text: string,
+  rounding: DurationRounding = DEFAULT_DURATION_ROUNDING
+): { mins: number; secs: number } | null {
+  const seconds = parseDurationSeconds(text);
+  return seconds === null ? null : splitDuration(seconds, rounding);
+}
+
+/** Rows parsed between progress reports. */
+const PROGRESS_INTERVAL = 1000;
+
+/** CSV records with the column index of each lower-cased header. */
+function readCsvTable(csvData: string, options: ParseOptions) {
+  // 1. Parse CSV Data (delimiter and quote detected unless given)
+  const detected = detectDialect(csvData);
+  const raw: string[][] = parseCsv(csvData.replace(/^\uFEFF/, ''), {
+    delimiter: options.delimiter ?? detected.delimiter,
+    quote: options.quote ?? detected.quote
+  });
+  if (!raw.length) throw new ConversionError('EMPTY_INPUT', 'CSV data is empty or invalid.');
 
   // 2. Trim and index original headers
   const originalHeaders = raw[0].map(h => String(h).trim());
-  const dataRows = raw.slice(1);
   const idxMap: Record<string, number> = {};
   originalHeaders.forEach((h, i) => { idxMap[h.toLowerCase()] = i; });
+  return { idxMap, dataRows: raw.slice(1) };
+}
+
+const dateTimeColumn = ({ idxMap, dataRows }: ReturnType<typeof readCsvTable>) => {
+  const dtI = idxMap['date/time played'] ?? -1;
+  return dtI === -1 ? [] : dataRows.map(row => (row[dtI] ?? '').trim());
+};
+
+/**
+ * Detects the date format of the "Date/Time Played" column, so callers can
+ * show it or ask the user before parsing.
+ *
+ * @param csvData The CSV data as a string.
+ * @param options Delimiter and quote overrides.
+ */
+export function detectReportDateFormat(csvData: string, options: ParseOptions = {}): DateFormatDetection {
+  return detectDateFormat(dateTimeColumn(readCsvTable(csvData, options)));
+}
+
+/**
+ * Parses RadioDJ CSV content into report rows.
+ * Splits "Date/Time Played" into separate date and time
+ * and "Duration" into minutes and seconds. All dates are read in one format,
+ * given or detected from the whole column. Values that cannot be parsed
+ * are kept as text so validation can report them.
+ *
+ * @param csvData The CSV data as a string.
+ * @param options Delimiter, quote and date format overrides.
+ * @returns The parsed rows, in file order.
+ * @throws ConversionError `AMBIGUOUS_DATE_FORMAT` when no date format is
+ * given and the dates fit several equally well.
+ */
+export function parseReportRows(csvData: string, options: ParseOptions = {}): ReportRow[] {
+  const table = readCsvTable(csvData, options);
+  const { idxMap, dataRows } = table;
 
   const dtI = idxMap['date/time played'] ?? -1;
   const durI = idxMap['duration'] ?? -1;
@@ -36,94 +300,97 @@ export async function convertCsvToXls(csvData: string): Promise<Buffer> {
   const yearI = idxMap['year'] ?? -1;
   const pubI = idxMap['publisher'] ?? -1;
   const copyI = idxMap['copyright'] ?? -1;
+  const typeI = idxMap['track type'] ?? idxMap['type'] ?? -1;
+  const categoryI = idxMap['category'] ?? idxMap['subcategory'] ?? -1;
+  const isrcI = idxMap['isrc'] ?? -1;
+  if (dtI === -1 && artistI === -1 && titleI === -1) {
+    throw new ConversionError(
+      'MISSING_COLUMNS',
+      'No RadioDJ columns found (expected "Date/Time Played", "Artist" and "Title"). Check the delimiter.'
+    );
+  }
+
+  const dates = detectDateFormat(dateTimeColumn(table));
+  options.onDateFormat?.(dates);
+  const dateFormat = options.dateFormat ?? dates.format;
+  if (!dateFormat && dates.candidates.length) {
+    throw new ConversionError('AMBIGUOUS_DATE_FORMAT', describeAmbiguousDates(dates));
+  }
 
   // 3. Process each row into structured object
-  const processed = dataRows.map(row => {
+  return dataRows.map((row, index): ReportRow => {
+    if (index % PROGRESS_INTERVAL === 0) options.onProgress?.(index, dataRows.length);
+    const cell = (i: number) => (i !== -1 ? row[i] ?? '' : '');
+    const dateTimeText = cell(dtI).trim();
+    const durationText = cell(durI).trim();
     let dateVal: Date | string = '';
     let timeVal: Date | string = '';
     if (dtI !== -1) {
-      const full = String(row[dtI]).trim();
-      const [dateStr, timeStr = ''] = full.includes(' ') ? full.split(/ (.+)/) : [full];
-      const dateFmts = ['M/d/yyyy','MM/dd/yyyy','yyyy-MM-dd','dd.MM.yyyy','d.M.yyyy'];
-      for (const fmt of dateFmts) {
-        const d = parse(dateStr, fmt, new Date());
-        if (isValid(d) && d.getFullYear() > 1900) { dateVal = d; break; }
-      }
-      if (!dateVal) dateVal = dateStr;
-      const timeFmts = ['h:mm:ss a','hh:mm:ss a','H:mm:ss','HH:mm:ss','h:mm a','H:mm'];
-      const base = format(new Date(1970, 0, 1), 'yyyy-MM-dd');
-      for (const fmt of timeFmts) {
-        const t = parse(`${base} ${timeStr}`, `yyyy-MM-dd ${fmt}`, new Date());
-        if (isValid(t)) { timeVal = t; break; }
-      }
-      if (!timeVal && /^\d{1,2}:\d{1,2}(:\d{1,2})?$/.test(timeStr)) {
-        const [h,m,s=0] = timeStr.split(':').map(Number);
-        const tmp = new Date(1970, 0, 1);
-        tmp.setHours(h, m, s, 0);
-        if (isValid(tmp)) timeVal = tmp;
-      }
+      const [dateStr, timeStr] = splitDateTime(dateTimeText);
+      dateVal = (dateFormat && parseDatePart(dateStr, dateFormat)) || dateStr;
+      timeVal = parseTimePart(timeStr, dates.clock) ?? '';
     }
     let mins: number | string = '';
     let secs: number | string = '';
-    if (durI !== -1) {
-      const txt = String(row[durI]).trim();
-      const parts = txt.split(':').map(Number);
-      if (parts.length === 2 && parts.every(p => !isNaN(p))) {
-        [mins, secs] = parts;
-      } else if (parts.length === 3 && parts.every(p => !isNaN(p))) {
-        mins = parts[0] * 60 + parts[1];
-        secs = parts[2];
-      }
-    }
+    const durationSeconds = durI !== -1 ? parseDurationSeconds(durationText) ?? undefined : undefined;
+    if (durationSeconds !== undefined) ({ mins, secs } = splitDuration(durationSeconds));
     return {
+      sourceRow: index + 2,
+      sourceFile: options.sourceFile,
+      dateTimeText,
+      durationText,
+      durationSeconds,
       dateVal,
+      show: '',
       timeVal,
       mins,
       secs,
-      title: titleI !== -1 ? row[titleI] : '',
-      copy: copyI !== -1 ? row[copyI] : '',
-      composer: composerI !== -1 ? row[composerI] : '',
-      artist: artistI !== -1 ? row[artistI] : '',
-      album: albumI !== -1 ? row[albumI] : '',
-      pub: pubI !== -1 ? row[pubI] : '',
-      year: yearI !== -1 ? row[yearI] : ''
+      title: cell(titleI),
+      copy: cell(copyI),
+      composer: cell(composerI),
+      artist: cell(artistI),
+      album: cell(albumI),
+      pub: cell(pubI),
+      year: toYear(cell(yearI)),
+      trackType: trackTypeName(cell(typeI)),
+      category: cell(categoryI).trim(),
+      isrc: cell(isrcI).trim(),
+      catalogNumber: '',
+      label: '',
+      country: '',
+      ensemble: '',
+      recordingType: '',
+      performerCount: '',
+      musicAuthor: '',
+      lyricsAuthor: ''
     };
   });
+}
 
-  // 4. Define final columns
-  const columnMapping = [
-    { header: 'DATA DIFUZARII', key: 'dateVal' },
-    { header: 'NUMELE EMISIUNII', key: null },
-    { header: 'ORA DIFUZARII', key: 'timeVal' },
-    { header: 'MINUTE DIFUZATE', key: 'mins' },
-    { header: 'SECUNDE DIFUZATE', key: 'secs' },
-    { header: 'TITLUL PIESEI', key: 'title' },
-    { header: 'AUTOR MUZICA', key: 'copy' },
-    { header: 'AUTOR TEXT', key: 'composer' },
-    { header: 'ARTIST', key: 'artist' },
-    { header: 'ORCHESTRA, FORMATIE, GRUP', key: null },
-    { header: 'NR. DE ARTISTI', key: null },
-    { header: 'ALBUM', key: 'album' },
-    { header: 'NUMAR CATALOG', key: null },
-    { header: 'LABEL', key: null },
-    { header: 'PRODUCATOR', key: 'pub' },
-    { header: 'TARA', key: null },
-    { header: 'ANUL INREGISTRARII', key: 'year' },
-    { header: 'TIPUL INREGISTRARII', key: null }
-  ];
+/** Cell values of one report row, in the profile's column order. */
+export function mapReportRow(row: ReportRow, profile: MappingProfile = DEFAULT_PROFILE): unknown[] {
+  return profile.columns.map(c => applyTransform(
+    c.source.kind === 'field' ? row[c.source.field] : c.source.value,
+    c.transform
+  ));
+}
 
-  // 5. Build sheet data
+/**
+ * Lays out report rows as a worksheet following the mapping profile:
+ * typed date, time and number cells, font size 10, and column widths.
+ */
+export function buildReportSheet(rows: ReportRow[], profile: MappingProfile = DEFAULT_PROFILE): XLSX.WorkSheet {
+  // 4. Map processed rows onto the profile's columns
+  const columns = profile.columns;
   const aoa = [
-    columnMapping.map(c => c.header),
-    ...processed.map(r => columnMapping.map(c => c.key ? (r as any)[c.key] : ''))
+    columns.map(c => c.header),
+    ...rows.map(r => mapReportRow(r, profile))
   ];
   const newWs = XLSX.utils.aoa_to_sheet(aoa, { cellDates: true });
 
-  // 6. Style and type conversion
+  // 5. Style and type conversion
   const epoch = Date.UTC(1899, 11, 30);
   const range = XLSX.utils.decode_range(newWs['!ref']!);
-  const idx: Record<string, number> = {};
-  columnMapping.forEach((c, i) => idx[c.header] = i);
 
   for (let R = range.s.r; R <= range.e.r; R++) {
     for (let C = range.s.c; C <= range.e.c; C++) {
@@ -137,54 +404,194 @@ export async function convertCsvToXls(csvData: string): Promise<Buffer> {
       // header row no further conversion
       if (R === range.s.r) continue;
 
-      const header = aoa[0][C];
+      const col = columns[C];
+      const src = col.source.kind === 'field' ? col.source.field : null;
       // Date
-      if (header === 'DATA DIFUZARII' && cell.v instanceof Date) {
+      if (src === 'dateVal' && cell.v instanceof Date) {
         const dt: Date = cell.v;
         cell.v = (Date.UTC(dt.getFullYear(), dt.getMonth(), dt.getDate()) - epoch) / 86400000;
         cell.t = 'n';
-        cell.z = 'mm/dd/yyyy';
+        cell.z = col.numberFormat || 'mm/dd/yyyy';
+        delete cell.w;
       }
       // Time
-      if (header === 'ORA DIFUZARII' && cell.v instanceof Date) {
+      if (src === 'timeVal' && cell.v instanceof Date) {
         const d: Date = cell.v;
         const h = getHours(d), m = getMinutes(d), s = getSeconds(d);
         cell.v = (h * 3600 + m * 60 + s) / 86400;
         cell.t = 'n';
-        cell.z = 'hh:mm:ss';
+        cell.z = col.numberFormat || 'hh:mm:ss';
+        delete cell.w;
       }
       // Numbers
-      if (['MINUTE DIFUZATE','SECUNDE DIFUZATE'].includes(header) && typeof cell.v === 'number') {
+      if (col.numberFormat && typeof cell.v === 'number') {
         cell.t = 'n';
-        cell.z = '0';
+        cell.z = col.numberFormat;
       }
     }
   }
 
-  // 7. Set column widths
-  newWs['!cols'] = [
-    {wch:14}, // A
-    {wch:8},  // B
-    {wch:14}, // C
-    {wch:6.5},// D
-    {wch:6.5},// E
-    {wch:48}, // F
-    {wch:8},  // G
-    {wch:8},  // H
-    {wch:48}, // I
-    {wch:8},  // J
-    {wch:8},  // K
-    {wch:48}, // L
-    {wch:8},  // M
-    {wch:8},  // N
-    {wch:8},  // O
-    {wch:8},  // P
-    {wch:8},  // Q
-    {wch:8}   // R
-  ];
+  // 6. Set column widths
+  newWs['!cols'] = columns.map(c => ({ wch: c.width }));
+  return newWs;
+}
 
-  // 8. Write workbook
+/**
+ * Writes report sheets to a single workbook, each sheet laid out by the
+ * same profile. The optional summary and validation sheets cover the rows
+ * of all sheets.
+ *
+ * @param sheets Named groups of rows; CSV output only contains the first.
+ * @param options Conversion options; `delimiter` only sets the CSV output separator.
+ * @returns The file data as a Buffer.
+ */
+export function writeReportWorkbook(sheets: ReportSheet[], options: ConvertOptions = {}): Buffer {
+  const bookType = options.format ?? 'xls';
+  if (!Object.hasOwn(OUTPUT_FORMATS, bookType)) {
+    throw new ConversionError('UNSUPPORTED_FORMAT', `Unsupported output format "${bookType}".`);
+  }
   const newWb = XLSX.utils.book_new();
-  XLSX.utils.book_append_sheet(newWb, newWs, sheetName);
-  return XLSX.write(newWb, { bookType: 'xls', type: 'buffer', cellDates: true });
+  const used = new Set<string>();
+  for (const sheet of sheets) {
+    XLSX.utils.book_append_sheet(newWb, buildReportSheet(sheet.rows, options.profile), toSheetName(sheet.name, used));
+  }
+
+  // 7. Write workbook
+  if (options.includeSummarySheet && bookType !== 'csv') {
+    const summary = buildSummarySheet(sheets.flatMap(s => s.rows), options.decisions);
+    XLSX.utils.book_append_sheet(newWb, summary, toSheetName(SUMMARY_SHEET_NAME, used));
+  }
+  if (options.includeValidationSheet && bookType !== 'csv') {
+    const issues = validateReportRows(sheets.flatMap(s => s.rows));
+    XLSX.utils.book_append_sheet(newWb, buildValidationSheet(issues), toSheetName(VALIDATION_SHEET_NAME, used));
+  }
+  if (bookType === 'csv') {
+    // Plain text in the report layout, dates and times rendered with their number formats
+    return XLSX.write(newWb, { bookType, type: 'buffer', FS: options.delimiter ?? ';' } as XLSX.WritingOptions);
+  }
+  return XLSX.write(newWb, { bookType, type: 'buffer', cellDates: true, cellStyles: true });
+}
+
+/**
+ * Writes already parsed (and possibly edited) report rows to a workbook,
+ * split into sheets according to `options.grouping`.
+ *
+ * @param rows Rows from {@link parseReportRows}.
+ * @param options Conversion options; `delimiter` only sets the CSV output separator.
+ * @returns The file data as a Buffer.
+ */
+export function convertReportRows(rows: ReportRow[], options: ConvertOptions = {}): Buffer {
+  const grouping = options.grouping ?? 'single';
+  if (!SHEET_GROUPINGS.some(g => g.value === grouping)) {
+    throw new ConversionError('INVALID_OPTION', `Unknown sheet grouping "${grouping}".`);
+  }
+  if (grouping !== 'single' && options.format === 'csv') {
+    throw new ConversionError('UNSUPPORTED_FORMAT', 'Splitting into sheets needs a workbook format (XLS, XLSX or ODS).');
+  }
+  return writeReportWorkbook(groupReportRows(rows, grouping), options);
+}
+
+/** Settings of the steps up to the reporting period; see {@link timeReportRows}. */
+export interface RowTimingOptions {
+  /** IANA time zone the station logs in. Defaults to Europe/Bucharest. */
+  timeZone?: string;
+  durationRounding?: DurationRounding;
+  durationSource?: DurationSource;
+  /** Reporting period; rows played outside it are left out. */
+  dateRange?: DateRange;
+}
+
+/**
+ * First half of {@link processReportRows}: sets the rows' UTC offsets from
+ * the station time zone, measures airtime and rounds durations, then keeps
+ * the rows within the date range. Airtime is measured before any play is
+ * left out, so the last play before the period still ends the one before it.
+ *
+ * @param rows Parsed rows, in play order.
+ * @returns The rows of the reporting period.
+ */
+export function timeReportRows(rows: ReportRow[], options: RowTimingOptions = {}): ReportRow[] {
+  const located = assignUtcOffsets(rows, options.timeZone ?? DEFAULT_TIME_ZONE);
+  const rounded = roundDurations(
+    assignAirtime(located),
+    options.durationRounding ?? DEFAULT_DURATION_ROUNDING,
+    options.durationSource ?? DEFAULT_DURATION_SOURCE
+  );
+  return filterByDateRange(rounded, options.dateRange);
+}
+
+/**
+ * Second half of {@link processReportRows}: splits the author credits,
+ * fills in catalogue metadata, performer counts and show names, and applies
+ * the profile's filter rules.
+ *
+ * @param rows Rows of the reporting period, from {@link timeReportRows}.
+ * @param options Conversion options, such as the mapping profile.
+ * @param onProgress Called before each step with the steps done and their number.
+ * @returns The rows to report and those the filter rules dropped, in source order.
+ */
+export function fillReportRows(
+  rows: ReportRow[],
+  options: ConvertOptions = {},
+  onProgress?: (done: number, total: number) => void
+): FilterResult {
+  const profile = options.profile ?? DEFAULT_PROFILE;
+  const catalogue = options.catalogue ?? [];
+  onProgress?.(0, 4);
+  const credited = assignAuthors(rows, profile.creditRules ?? DEFAULT_CREDIT_RULES);
+  onProgress?.(1, 4);
+  const enriched = enrichRows(credited, catalogue, options.decisions);
+  onProgress?.(2, 4);
+  const performing = assignPerformers(enriched, profile.performerRules ?? DEFAULT_PERFORMER_RULES, catalogue);
+  onProgress?.(3, 4);
+  return applyRowFilters(assignShows(performing, options.schedule ?? EMPTY_SCHEDULE), profile.filterRules);
+}
+
+/**
+ * Turns parsed rows, from a CSV file or the RadioDJ database, into the rows
+ * a report is written from, with {@link timeReportRows} and then
+ * {@link fillReportRows}.
+ *
+ * @param rows Parsed rows.
+ * @param options Conversion options, such as the mapping profile.
+ * @returns The rows to report, in source order.
+ */
+export function processReportRows(rows: ReportRow[], options: ConvertOptions = {}): ReportRow[] {
+  const timed = timeReportRows(rows, {
+    ...options,
+    durationRounding: options.profile?.durationRounding,
+    durationSource: options.profile?.durationSource,
+  });
+  return fillReportRows(timed, options).kept;
+}
+
+/**
+ * Parses CSV content with {@link parseReportRows} and processes the rows
+ * with {@link processReportRows}.
+ *
+ * @param csvData The CSV data as a string.
+ * @param options Conversion options, such as the mapping profile.
+ * @returns The rows to report, in source order.
+ */
+export function prepareReportRows(csvData: string, options: ConvertOptions = {}): ReportRow[] {
+  return processReportRows(parseReportRows(csvData, options), options);
+}
+
+/**
+ * Converts a CSV file content (as string) to a report workbook (as Buffer),
+ * written as XLS unless another output format is requested.
+ * Prepares the rows with {@link prepareReportRows},
+ * lays out the columns as described by the mapping profile
+ * (Romanian report headers by default),
+ * and applies font size 10 to all cells.
+ *
+ * @param csvData The CSV data as a string.
+ * @param options Conversion options, such as the mapping profile.
+ * @returns A promise that resolves to the file data as a Buffer.
+ */
+export async function convertCsvToXls(csvData: string, options: ConvertOptions = {}): Promise<Buffer> {
+  const rows = prepareReportRows(csvData, options);
+  // CSV output keeps the input's delimiter
+  const delimiter = options.delimiter ?? detectDialect(csvData).delimiter;
+  return convertReportRows(rows, { ...options, delimiter });
 }
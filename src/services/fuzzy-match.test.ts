@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MATCH_THRESHOLD, canonicalTrack, createTrackMatcher, groupTrackVariants, levenshtein, primaryArtist, primaryArtistKey,
+} from './fuzzy-match';
+
+describe('canonicalTrack', () => {
+  it('gives credit-order, case and diacritic variants one key', () => {
+    const key = canonicalTrack({ artist: 'Smiley feat. Alex Velea', title: 'Dor de tine' }).key;
+    expect(canonicalTrack({ artist: 'ALEX VELEA & Smiley', title: 'Dor De Tine (Radio Edit)' }).key).toBe(key);
+    expect(canonicalTrack({ artist: 'Smiley', title: 'Dor de tine (feat. Alex Velea)' }).key).toBe(key);
+    expect(canonicalTrack({ artist: '', title: 'Smiley feat. Alex Velea - Dor de tine' }).key).toBe(key);
+  });
+
+  it('keeps known groups as one artist', () => {
+    expect(canonicalTrack({ artist: 'AC/DC', title: 'Thunderstruck' }).artists).toEqual(['ac dc']);
+    expect(canonicalTrack({ artist: 'Earth, Wind & Fire', title: 'September' }).artists).toEqual(['earth wind fire']);
+    expect(canonicalTrack({ artist: 'Zdob și Zdub & Advahov Brothers', title: 'Trenulețul' }).artists)
+      .toEqual(['advahov brothers', 'zdob si zdub']);
+  });
+});
+
+describe('primaryArtist', () => {
+  it('returns the first credited artist as written', () => {
+    expect(primaryArtist('Ștefan Bănică Jr. & Smiley')).toBe('Ștefan Bănică Jr.');
+    expect(primaryArtist('Inna x Sean Paul')).toBe('Inna');
+    expect(primaryArtistKey('Ștefan Bănică Jr. & Smiley')).toBe('stefan banica jr');
+  });
+
+  it('does not break up band names', () => {
+    expect(primaryArtist('AC/DC')).toBe('AC/DC');
+    expect(primaryArtist('Earth, Wind & Fire feat. Smiley')).toBe('Earth, Wind & Fire');
+  });
+
+  it('splits on x, and or și only between spaced words', () => {
+    expect(primaryArtist('Malcolm X')).toBe('Malcolm X');
+    expect(primaryArtist('Xandra')).toBe('Xandra');
+    expect(primaryArtist('Sandra and Andrei')).toBe('Sandra');
+    expect(primaryArtist('Andra și Marius')).toBe('Andra');
+  });
+});
+
+describe('levenshtein', () => {
+  it('counts single-character edits', () => {
+    expect(levenshtein('kitten', 'sitting')).toBe(3);
+    expect(levenshtein('', 'abc')).toBe(3);
+  });
+});
+
+describe('createTrackMatcher', () => {
+  const matcher = createTrackMatcher([{ artist: 'Smiley', title: 'Dor de tine' }, { artist: 'U2', title: 'One' }]);
+
+  it('matches spelling variants', () => {
+    expect(matcher.find({ artist: 'SMILEY', title: 'Dor De Tine (Radio Edit)' })?.score).toBe(1);
+    expect(matcher.find({ artist: 'Smiley', title: 'Dor de tinee' })?.score).toBeGreaterThanOrEqual(MATCH_THRESHOLD);
+  });
+
+  it('does not match different tracks', () => {
+    expect(matcher.find({ artist: 'Inna', title: 'Hot' })).toBeUndefined();
+  });
+
+  it('leaves out rejected matches', () => {
+    const variant = canonicalTrack({ artist: 'Smiley', title: 'Dor de tinee' }).key;
+    const target = canonicalTrack({ artist: 'Smiley', title: 'Dor de tine' }).key;
+    const rejecting = createTrackMatcher([{ artist: 'Smiley', title: 'Dor de tine' }], [{ variant, target, accepted: false }]);
+    expect(rejecting.find({ artist: 'Smiley', title: 'Dor de tinee' })).toBeUndefined();
+  });
+});
+
+describe('groupTrackVariants', () => {
+  it('names each group after its most played variant', () => {
+    const tracks = [
+      { artist: 'Smiley', title: 'Dor de tine' },
+      { artist: 'SMILEY', title: 'Dor De Tine (Radio Edit)' },
+      { artist: 'Smiley', title: 'Dor de tine' },
+      { artist: 'Inna', title: 'Hot' },
+    ];
+    const { groupOf, names } = groupTrackVariants(tracks);
+    const group = groupOf.get(canonicalTrack(tracks[1]).key)!;
+    expect(names.get(group)).toEqual({ artist: 'Smiley', title: 'Dor de tine' });
+    expect(names.size).toBe(2);
+  });
+});
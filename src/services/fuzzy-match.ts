@@ -0,0 +1,338 @@
+import { DEFAULT_PERFORMER_RULES } from './performers';
+import { escapeRegExp, normalizeText, removeDiacritics } from './text-utils';
+
+/**
+ * Recognizes spelling variants of the same track across exports, e.g.
+ * "Smiley feat. Alex Velea", "SMILEY & Alex Velea" or "Dor De Tine (Radio Edit)".
+ * Names are reduced to a canonical form (diacritics folded, credits split on
+ * feat./ft./&, version suffixes removed), and the remaining differences are
+ * scored with edit distance and token overlap.
+ */
+
+export interface TrackName {
+  artist: string;
+  title: string;
+}
+
+export interface CanonicalTrack {
+  /** Credited artists, folded and sorted. */
+  artists: string[];
+  /** Folded title without version suffixes or featured artists. */
+  title: string;
+  /** Equal for tracks that differ only in case, diacritics, credit order or version suffix. */
+  key: string;
+}
+
+/** Scores from which a variant is taken to be the same track without asking. */
+export const MATCH_THRESHOLD = 0.92;
+
+/** Scores from which a variant is offered for review; anything lower is a different track. */
+export const REVIEW_THRESHOLD = 0.75;
+
+// Artist and title weigh in at this ratio; covers share a title, not the artist
+const ARTIST_WEIGHT = 0.4;
+
+// "x", "and" and "și" only between spaced words, so "Malcolm X" and "Xandra" stay whole
+const ARTIST_SEPARATORS = /\s+(?:x|and|si|și|şi)\s+|\s*(?:\bfeat\b\.?|\bft\b\.?|\bfeaturing\b|\bvs\b\.?|&|\+|,|;|\/)\s*/i;
+
+const foldCredit = (text: string) => removeDiacritics(text).toLowerCase();
+
+// Groups named with separators, like "AC/DC" or "Earth, Wind & Fire", as whole credited artists only
+const KNOWN_GROUPS = new RegExp(
+  `(?<=^|${ARTIST_SEPARATORS.source})(?:${DEFAULT_PERFORMER_RULES.knownGroups
+    .map(name => escapeRegExp(foldCredit(name).replace(/\s+/g, ' ').trim()))
+    .sort((a, b) => b.length - a.length)
+    .join('|')})(?=$|${ARTIST_SEPARATORS.source})`,
+  'gi'
+);
+
+// "(feat. Alex Velea)", "[ft. X]" or a trailing "feat. X"
+const FEATURED = /\s*[([]\s*(?:feat|ft|featuring)\b\.?([^)\]]*)[)\]]|\s+(?:feat|ft|featuring)\b\.?\s+(.*)$/;
+
+const VERSION_WORDS = '(?:radio|edit|remix|rmx|mix|version|extended|original|remaster(?:ed)?|live|acoustic|instrumental|club|dub|single|album|unplugged)';
+
+// "(Radio Edit)", "[Remix]" or " - Radio Edit" at the end of a title
+const VERSION_SUFFIX = new RegExp(
+  `\\s*(?:[([][^)\\]]*\\b${VERSION_WORDS}\\b[^)\\]]*[)\\]]|\\s-\\s[^-]*\\b${VERSION_WORDS}\\b[^-]*)\\s*$`
+);
+
+/**
+ * The credited artists as written, e.g. "Smiley", "Alex Velea" and
+ * "Connect-R" for "Smiley feat. Alex Velea & Connect-R". Known groups of the
+ * default performer rules are never split.
+ */
+function creditedArtists(artist: string): string[] {
+  const text = artist.normalize('NFC').replace(/[()[\]]/g, ' ').replace(/\s+/g, ' ').trim();
+  const folded = foldCredit(text);
+  const parts: string[] = [];
+  let position = 0;
+  // Folding keeps one character per letter for the text RadioDJ logs, so positions carry over
+  if (folded.length === text.length) {
+    for (const match of folded.matchAll(KNOWN_GROUPS)) {
+      const end = match.index! + match[0].length;
+      parts.push(...text.slice(position, match.index).split(ARTIST_SEPARATORS), text.slice(match.index, end));
+      position = end;
+    }
+  }
+  parts.push(...text.slice(position).split(ARTIST_SEPARATORS));
+  return parts.map(part => part.trim()).filter(Boolean);
+}
+
+/** Splits a credit into folded artist names for matching. */
+function splitCredits(artist: string): string[] {
+  return creditedArtists(artist).map(normalizeText).filter(Boolean);
+}
+
+/** Matching key for a whole credit, e.g. "alex velea & smiley" for "SMILEY feat. Alex Velea". */
+export function creditKey(artist: string): string {
+  return Array.from(new Set(splitCredits(artist))).sort().join(' & ');
+}
+
+/** The first credited artist as written, e.g. "Smiley" for "Smiley feat. Alex Velea". */
+export function primaryArtist(artist: string): string {
+  return creditedArtists(artist)[0] ?? '';
+}
+
+/** Matching key for the first credited artist, e.g. "stefan banica jr" for "Ștefan Bănică Jr. & Smiley". */
+export function primaryArtistKey(artist: string): string {
+  return splitCredits(artist)[0] ?? '';
+}
+
+/** Reduces an artist and title to the form variants are compared in. */
+export function canonicalTrack({ artist, title }: TrackName): CanonicalTrack {
+  let name = removeDiacritics(title).toLowerCase().trim();
+  let credits = artist;
+  // "Smiley - Dor De Tine" in the title field, with or without the artist filled in
+  const dash = name.indexOf(' - ');
+  if (dash > 0 && (!normalizeText(artist) || normalizeText(name.slice(0, dash)) === normalizeText(artist))) {
+    credits = credits || name.slice(0, dash);
+    name = name.slice(dash + 3);
+  }
+  const featured: string[] = [];
+  name = name.replace(FEATURED, (_, inBrackets?: string, trailing?: string) => {
+    featured.push(inBrackets ?? trailing ?? '');
+    return '';
+  });
+  for (let previous = ''; previous !== name;) {
+    previous = name;
+    name = name.replace(VERSION_SUFFIX, '');
+  }
+
+  const artists = Array.from(new Set([...splitCredits(credits), ...featured.flatMap(splitCredits)])).sort();
+  const folded = normalizeText(name);
+  return { artists, title: folded, key: `${artists.join(' & ')}\u0000${folded}` };
+}
+
+/** Edit distance: the insertions, deletions and substitutions turning one string into the other. */
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+const tokens = (text: string) => new Set(text.split(' ').filter(Boolean));
+
+/**
+ * Similarity of two folded strings from 0 to 1: the better of the edit
+ * distance relative to the longer string and the overlap of their words,
+ * so both typos and reordered or extra words score well.
+ */
+export function textSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+  const edit = 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+  const ta = tokens(a);
+  const tb = tokens(b);
+  const shared = Array.from(ta).filter(t => tb.has(t)).length;
+  return Math.max(edit, (2 * shared) / (ta.size + tb.size));
+}
+
+const numbers = (text: string) => (text.match(/\d+/g) ?? []).join(' ');
+
+function titleSimilarity(a: string, b: string): number {
+  // "Part 1" and "Part 2" are different tracks however close the titles look
+  return numbers(a) === numbers(b) ? textSimilarity(a, b) : 0;
+}
+
+/** How well the artists of the smaller credit list are found in the other one. */
+function artistSimilarity(a: string[], b: string[]): number {
+  if (!a.length && !b.length) return 1;
+  if (!a.length || !b.length) return 0.5;
+  const [fewer, more] = a.length <= b.length ? [a, b] : [b, a];
+  const best = fewer.map(name => Math.max(...more.map(other => textSimilarity(name, other))));
+  return best.reduce((sum, score) => sum + score, 0) / best.length;
+}
+
+/** Similarity of two tracks from 0 (unrelated) to 1 (the same canonical track). */
+export function trackSimilarity(a: CanonicalTrack, b: CanonicalTrack): number {
+  if (a.key === b.key) return 1;
+  return ARTIST_WEIGHT * artistSimilarity(a.artists, b.artists) + (1 - ARTIST_WEIGHT) * titleSimilarity(a.title, b.title);
+}
+
+/**
+ * A user's verdict on a suggested match, between canonical track keys. An
+ * accepted decision makes the variant match its target; a rejected one stops
+ * the pair from being suggested again.
+ */
+export interface MatchDecision {
+  variant: string;
+  target: string;
+  accepted: boolean;
+}
+
+/** A match too uncertain to apply without confirmation. */
+export interface MatchSuggestion {
+  variant: TrackName & { key: string };
+  target: TrackName & { key: string };
+  score: number;
+}
+
+export interface TrackMatch<T> {
+  candidate: T;
+  key: string;
+  score: number;
+}
+
+export interface TrackMatcher<T extends TrackName> {
+  add(candidate: T): void;
+  /**
+   * The closest candidate scoring at least {@link REVIEW_THRESHOLD}. Exact and
+   * accepted matches score 1; callers treat scores below
+   * {@link MATCH_THRESHOLD} as suggestions.
+   */
+  find(track: TrackName): TrackMatch<T> | undefined;
+}
+
+// Words too common in titles and credits to narrow down the candidates; title words
+// of one or two letters ("a", "de", "la", "2") are left out as well
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'you', 'your', 'with', 'from', 'this', 'that', 'all', 'are', 'not', 'can', 'don',
+  'love', 'baby', 'girl', 'boy', 'night', 'time', 'life', 'heart', 'feat', 'band', 'orchestra',
+  'din', 'mai', 'tot', 'cum', 'cand', 'doar', 'pentru', 'sunt', 'esti', 'care', 'mea', 'meu', 'tau', 'tine', 'mine',
+  'iubire', 'dragoste', 'inima', 'noapte', 'dor', 'viata', 'vara', 'fata', 'formatia'
+]);
+
+// Words shared by more candidates than this are only looked up when the track has no rarer word
+const MAX_CANDIDATES_PER_WORD = 200;
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}\u0001${b}` : `${b}\u0001${a}`);
+
+/**
+ * Matches tracks against a growing list of candidates. Later candidates win
+ * over earlier ones with the same canonical key. Only candidates sharing a
+ * distinctive word with the track's artists or title are scored: common
+ * words would make nearly every candidate a contender.
+ */
+export function createTrackMatcher<T extends TrackName>(
+  candidates: T[] = [],
+  decisions: MatchDecision[] = []
+): TrackMatcher<T> {
+  const byKey = new Map<string, { candidate: T; track: CanonicalTrack }>();
+  const byToken = new Map<string, Set<string>>();
+  const accepted = new Map(decisions.filter(d => d.accepted).map(d => [d.variant, d.target]));
+  const rejected = new Set(decisions.filter(d => !d.accepted).map(d => pairKey(d.variant, d.target)));
+
+  const wordsOf = (track: CanonicalTrack) => {
+    const artistWords = track.artists.flatMap(a => a.split(' '));
+    const titleWords = Array.from(tokens(track.title));
+    // Short artist names such as "U2" are distinctive; short title words are not
+    const distinctive = new Set([
+      ...artistWords.filter(w => w.length > 1 && !STOP_WORDS.has(w)),
+      ...titleWords.filter(w => w.length > 2 && !STOP_WORDS.has(w)),
+    ]);
+    return distinctive.size ? Array.from(distinctive) : [...artistWords, ...titleWords].filter(Boolean);
+  };
+
+  const add = (candidate: T) => {
+    const track = canonicalTrack(candidate);
+    if (!track.title) return;
+    byKey.set(track.key, { candidate, track });
+    for (const word of wordsOf(track)) {
+      const keys = byToken.get(word) ?? new Set<string>();
+      keys.add(track.key);
+      byToken.set(word, keys);
+    }
+  };
+
+  const find = (name: TrackName): TrackMatch<T> | undefined => {
+    const track = canonicalTrack(name);
+    const exact = byKey.get(track.key) ?? byKey.get(accepted.get(track.key) ?? '');
+    if (exact) return { candidate: exact.candidate, key: exact.track.key, score: 1 };
+    if (!track.title) return undefined;
+
+    const lists = wordsOf(track)
+      .map(word => byToken.get(word))
+      .filter((keys): keys is Set<string> => !!keys)
+      .sort((a, b) => a.size - b.size)
+      .filter((keys, i) => i === 0 || keys.size <= MAX_CANDIDATES_PER_WORD);
+
+    let best: TrackMatch<T> | undefined;
+    const seen = new Set<string>();
+    for (const keys of lists) {
+      for (const key of keys) {
+        if (seen.has(key) || rejected.has(pairKey(track.key, key))) continue;
+        seen.add(key);
+        const other = byKey.get(key)!;
+        const score = trackSimilarity(track, other.track);
+        if (score >= REVIEW_THRESHOLD && (!best || score > best.score)) best = { candidate: other.candidate, key, score };
+      }
+    }
+    return best;
+  };
+
+  candidates.forEach(add);
+  return { add, find };
+}
+
+export interface TrackGroups {
+  /** Group key per canonical track key. */
+  groupOf: Map<string, string>;
+  /** The most played variant of each group, by group key. */
+  names: Map<string, TrackName>;
+  suggestions: MatchSuggestion[];
+}
+
+/**
+ * Groups the variants of each track, most played variants first so they
+ * name their group. Uncertain matches start a group of their own and are
+ * returned as suggestions.
+ */
+export function groupTrackVariants(tracks: TrackName[], decisions: MatchDecision[] = []): TrackGroups {
+  const counts = new Map<string, { name: TrackName; plays: number }>();
+  for (const name of tracks) {
+    const { key, title } = canonicalTrack(name);
+    if (!title) continue;
+    const entry = counts.get(key) ?? { name, plays: 0 };
+    entry.plays++;
+    counts.set(key, entry);
+  }
+
+  const matcher = createTrackMatcher<TrackName>([], decisions);
+  const groups: TrackGroups = { groupOf: new Map(), names: new Map(), suggestions: [] };
+  const variants = Array.from(counts.entries()).sort(([, a], [, b]) => b.plays - a.plays);
+  for (const [key, { name }] of variants) {
+    const match = matcher.find(name);
+    if (match && match.score >= MATCH_THRESHOLD) {
+      groups.groupOf.set(key, groups.groupOf.get(match.key) ?? match.key);
+      continue;
+    }
+    if (match) {
+      groups.suggestions.push({ variant: { ...name, key }, target: { ...match.candidate, key: match.key }, score: match.score });
+    }
+    groups.groupOf.set(key, key);
+    groups.names.set(key, name);
+    matcher.add(name);
+  }
+  return groups;
+}
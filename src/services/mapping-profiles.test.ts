@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_PROFILE, applyTransform, cloneProfile, createProfile, updateProfile, validateProfile,
+} from './mapping-profiles';
+
+describe('createProfile', () => {
+  it('starts from the default columns without sharing them', () => {
+    const profile = createProfile('Station B');
+    expect(profile.columns).toEqual(DEFAULT_PROFILE.columns);
+    profile.columns[0].header = 'DATE';
+    expect(DEFAULT_PROFILE.columns[0].header).toBe('DATA DIFUZARII');
+    expect(profile.version).toBe(1);
+    expect(profile.builtIn).toBeUndefined();
+  });
+
+  it('starts with the default filter rules', () => {
+    expect(createProfile('Station B').filterRules).toEqual(DEFAULT_PROFILE.filterRules);
+  });
+});
+
+describe('cloneProfile', () => {
+  it('copies the settings of a built-in profile into an editable one', () => {
+    const clone = cloneProfile(DEFAULT_PROFILE);
+    expect(clone.id).not.toBe(DEFAULT_PROFILE.id);
+    expect(clone.name).toBe('Default report (RO) (copy)');
+    expect(clone.builtIn).toBeUndefined();
+    expect(clone.performerRules).toEqual(DEFAULT_PROFILE.performerRules);
+    expect(clone.durationSource).toBe(DEFAULT_PROFILE.durationSource);
+  });
+
+  it('keeps a profile without filter rules without any', () => {
+    const { filterRules, ...unfiltered } = createProfile('Station B');
+    expect(filterRules).not.toHaveLength(0);
+    expect(cloneProfile(unfiltered).filterRules).toBeUndefined();
+  });
+});
+
+describe('updateProfile', () => {
+  it('bumps the version', () => {
+    const profile = createProfile('Station B');
+    expect(updateProfile(profile, { name: 'Station C' })).toMatchObject({ name: 'Station C', version: 2 });
+  });
+
+  it('refuses built-in profiles', () => {
+    expect(() => updateProfile(DEFAULT_PROFILE, { name: 'Mine' })).toThrow(/built-in/);
+  });
+});
+
+describe('validateProfile', () => {
+  it('accepts the default profile', () => {
+    expect(validateProfile(DEFAULT_PROFILE)).toEqual([]);
+  });
+
+  it('reports missing names, duplicate headers and bad widths', () => {
+    const profile = createProfile(' ', [
+      { header: 'TITLE', source: { kind: 'field', field: 'title' }, transform: 'none', width: 10 },
+      { header: 'TITLE', source: { kind: 'constant', value: '' }, transform: 'none', width: 0 },
+    ]);
+    expect(validateProfile(profile)).toEqual([
+      'Profile name is required.',
+      'Header "TITLE" is used more than once.',
+      'Column "TITLE" must have a positive width.',
+    ]);
+  });
+
+  it('reports malformed columns instead of failing on them', () => {
+    const profile = {
+      columns: [null, { header: 'A', width: '8' }, { header: 'B', source: { kind: 'field', field: 'title' }, transform: 'shout', width: 8 }],
+    } as never;
+    expect(validateProfile(profile)).toEqual([
+      'Profile name is required.',
+      'Column 1 must be an object.',
+      'Column "A" needs a source of kind "field" or "constant".',
+      'Column "A" must have a positive width.',
+      'Column "B" has an unknown transform "shout".',
+    ]);
+    expect(validateProfile(null as never)).toEqual(['The profile must be an object.']);
+  });
+
+  it('reports malformed rule settings', () => {
+    const profile = {
+      ...createProfile('Station B'),
+      filterRules: [{ action: 'drop', field: 'title', operator: 'equals', value: 'x' }],
+      durationSource: 'guess',
+    } as never;
+    expect(validateProfile(profile)).toEqual([
+      'Filter rule 1 needs a valid action, field, operator and text value.',
+      'Unknown duration source "guess".',
+    ]);
+  });
+});
+
+describe('applyTransform', () => {
+  it('title-cases Romanian text after spaces, dashes and slashes', () => {
+    expect(applyTransform('ȘTEFAN BĂNICĂ-JR/ION', 'titlecase')).toBe('Ștefan Bănică-Jr/Ion');
+  });
+
+  it('leaves non-text values alone', () => {
+    expect(applyTransform(42, 'uppercase')).toBe(42);
+  });
+});
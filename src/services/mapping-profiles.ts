@@ -0,0 +1,298 @@
+import { DEFAULT_FILTER_RULES, FILTER_FIELDS, FILTER_OPERATORS, type FilterRule } from './row-filters';
+import { DEFAULT_PERFORMER_RULES, type PerformerRules } from './performers';
+import { CREDIT_LAYOUTS, DEFAULT_CREDIT_RULES, UNSPLIT_CREDITS, type CreditRules } from './author-credits';
+import {
+  DEFAULT_DURATION_ROUNDING, DEFAULT_DURATION_SOURCE, DURATION_ROUNDINGS, DURATION_SOURCES,
+  type DurationRounding, type DurationSource,
+} from './durations';
+
+/**
+ * Column-mapping profiles describe the layout of the generated report:
+ * which headers are written, in which order, where each value comes from,
+ * how it is transformed, and the column width / number format used.
+ */
+
+/** Fields produced for each RadioDJ row by the converter. */
+export type ReportField =
+  | 'dateVal'
+  | 'show'
+  | 'timeVal'
+  | 'mins'
+  | 'secs'
+  | 'title'
+  | 'copy'
+  | 'composer'
+  | 'artist'
+  | 'album'
+  | 'pub'
+  | 'year'
+  | 'trackType'
+  | 'category'
+  | 'isrc'
+  | 'catalogNumber'
+  | 'label'
+  | 'country'
+  | 'ensemble'
+  | 'recordingType'
+  | 'performerCount'
+  | 'musicAuthor'
+  | 'lyricsAuthor';
+
+export const REPORT_FIELDS: { field: ReportField; label: string }[] = [
+  { field: 'dateVal', label: 'Date played' },
+  { field: 'show', label: 'Show (from schedule)' },
+  { field: 'timeVal', label: 'Time played' },
+  { field: 'mins', label: 'Duration (minutes)' },
+  { field: 'secs', label: 'Duration (seconds)' },
+  { field: 'title', label: 'Title' },
+  { field: 'copy', label: 'Copyright' },
+  { field: 'composer', label: 'Composer' },
+  { field: 'artist', label: 'Artist' },
+  { field: 'album', label: 'Album' },
+  { field: 'pub', label: 'Publisher' },
+  { field: 'year', label: 'Year' },
+  { field: 'trackType', label: 'Track type' },
+  { field: 'category', label: 'Category' },
+  { field: 'isrc', label: 'ISRC' },
+  { field: 'catalogNumber', label: 'Catalogue number (catalogue)' },
+  { field: 'label', label: 'Label (catalogue)' },
+  { field: 'country', label: 'Country (catalogue)' },
+  { field: 'ensemble', label: 'Orchestra / group (catalogue)' },
+  { field: 'recordingType', label: 'Recording type (catalogue)' },
+  { field: 'performerCount', label: 'Number of performers' },
+  { field: 'musicAuthor', label: 'Music author (from credits)' },
+  { field: 'lyricsAuthor', label: 'Lyrics author (from credits)' }
+];
+
+export type ColumnTransform = 'none' | 'trim' | 'uppercase' | 'lowercase' | 'titlecase';
+
+export const COLUMN_TRANSFORMS: { value: ColumnTransform; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'trim', label: 'Trim' },
+  { value: 'uppercase', label: 'UPPERCASE' },
+  { value: 'lowercase', label: 'lowercase' },
+  { value: 'titlecase', label: 'Title Case' }
+];
+
+export type ColumnSource =
+  | { kind: 'field'; field: ReportField }
+  | { kind: 'constant'; value: string };
+
+export interface ColumnSpec {
+  header: string;
+  source: ColumnSource;
+  transform: ColumnTransform;
+  /** Column width in characters (`wch`). */
+  width: number;
+  /** Excel number format applied to numeric and date/time cells. */
+  numberFormat?: string;
+}
+
+export interface MappingProfile {
+  id: string;
+  name: string;
+  /** Incremented every time the profile is saved. */
+  version: number;
+  /** Built-in profiles are read-only; clone them to make changes. */
+  builtIn?: boolean;
+  updatedAt: string;
+  columns: ColumnSpec[];
+  /** Include/exclude rules applied to the rows before they are written; none when unset. */
+  filterRules?: FilterRule[];
+  /** How performers are counted and groups recognized in the artist field. */
+  performerRules?: PerformerRules;
+  /** How the music and lyrics authors are read from the credit fields. */
+  creditRules?: CreditRules;
+  /** How durations with fractions of a second are rounded to whole seconds. */
+  durationRounding?: DurationRounding;
+  /** Whether durations are the tracks' own or their airtime until the next play. */
+  durationSource?: DurationSource;
+}
+
+const field = (
+  header: string,
+  f: ReportField,
+  width: number,
+  numberFormat?: string
+): ColumnSpec => ({ header, source: { kind: 'field', field: f }, transform: 'none', width, numberFormat });
+
+/** The Romanian copyright report layout the converter has always produced. */
+export const DEFAULT_PROFILE: MappingProfile = {
+  id: 'default',
+  name: 'Default report (RO)',
+  version: 4,
+  builtIn: true,
+  updatedAt: '2026-10-19T18:00:00.000Z',
+  columns: [
+    field('DATA DIFUZARII', 'dateVal', 14, 'mm/dd/yyyy'),
+    field('NUMELE EMISIUNII', 'show', 8),
+    field('ORA DIFUZARII', 'timeVal', 14, 'hh:mm:ss'),
+    field('MINUTE DIFUZATE', 'mins', 6.5, '0'),
+    field('SECUNDE DIFUZATE', 'secs', 6.5, '0'),
+    field('TITLUL PIESEI', 'title', 48),
+    field('AUTOR MUZICA', 'musicAuthor', 8),
+    field('AUTOR TEXT', 'lyricsAuthor', 8),
+    field('ARTIST', 'artist', 48),
+    field('ORCHESTRA, FORMATIE, GRUP', 'ensemble', 8),
+    field('NR. DE ARTISTI', 'performerCount', 8, '0'),
+    field('ALBUM', 'album', 48),
+    field('NUMAR CATALOG', 'catalogNumber', 8),
+    field('LABEL', 'label', 8),
+    field('PRODUCATOR', 'pub', 8),
+    field('TARA', 'country', 8),
+    field('ANUL INREGISTRARII', 'year', 8),
+    field('TIPUL INREGISTRARII', 'recordingType', 8)
+  ],
+  filterRules: DEFAULT_FILTER_RULES,
+  performerRules: DEFAULT_PERFORMER_RULES,
+  creditRules: DEFAULT_CREDIT_RULES,
+  durationRounding: DEFAULT_DURATION_ROUNDING,
+  durationSource: DEFAULT_DURATION_SOURCE
+};
+
+export const BUILT_IN_PROFILES: MappingProfile[] = [DEFAULT_PROFILE];
+
+function newProfileId(): string {
+  return `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Creates a new, editable profile. Starts from the default layout unless
+ * columns are supplied, and with the default filter rules.
+ */
+export function createProfile(name: string, columns: ColumnSpec[] = DEFAULT_PROFILE.columns): MappingProfile {
+  return {
+    id: newProfileId(),
+    name,
+    version: 1,
+    updatedAt: new Date().toISOString(),
+    columns: columns.map(c => ({ ...c, source: { ...c.source } })),
+    filterRules: DEFAULT_FILTER_RULES.map(rule => ({ ...rule }))
+  };
+}
+
+/** Copies a profile (including built-ins) into a new editable profile. */
+export function cloneProfile(profile: MappingProfile, name = `${profile.name} (copy)`): MappingProfile {
+  const { builtIn, ...settings } = profile;
+  // The copy keeps the source's filter rules, including having none
+  const { filterRules, ...fresh } = createProfile(name, profile.columns);
+  return { ...settings, ...fresh };
+}
+
+/**
+ * Applies changes to an editable profile and bumps its version.
+ * Built-in profiles cannot be updated.
+ */
+export function updateProfile(profile: MappingProfile, changes: Partial<Omit<MappingProfile, 'id' | 'version' | 'builtIn'>>): MappingProfile {
+  if (profile.builtIn) throw new Error(`Profile "${profile.name}" is built-in and cannot be edited. Clone it first.`);
+  return {
+    ...profile,
+    ...changes,
+    version: profile.version + 1,
+    updatedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Returns a list of human-readable problems; empty when the profile is usable.
+ * Checks the shape of every part too, as profiles sent to the API or given
+ * to the CLI as JSON may have any shape.
+ */
+export function validateProfile(profile: MappingProfile): string[] {
+  if (!isObject(profile)) return ['The profile must be an object.'];
+  const problems: string[] = [];
+  if (typeof profile.name !== 'string' || !profile.name.trim()) problems.push('Profile name is required.');
+  if (!Array.isArray(profile.columns)) return problems.concat('Profile has no columns.');
+  if (!profile.columns.length) problems.push('Profile must define at least one column.');
+  const seen = new Set<string>();
+  profile.columns.forEach((c, i) => {
+    if (!isObject(c)) {
+      problems.push(`Column ${i + 1} must be an object.`);
+      return;
+    }
+    const header = typeof c.header === 'string' ? c.header.trim() : '';
+    if (!header) problems.push(`Column ${i + 1} has no header.`);
+    else if (seen.has(header)) problems.push(`Header "${header}" is used more than once.`);
+    seen.add(header);
+    const source: Partial<ColumnSource> = isObject(c.source) ? c.source : {};
+    if (source.kind === 'field') {
+      if (!REPORT_FIELDS.some(f => f.field === source.field)) problems.push(`Column "${header}" maps to an unknown field.`);
+    } else if (source.kind === 'constant') {
+      if (typeof source.value !== 'string') problems.push(`Column "${header}" needs a text constant.`);
+    } else {
+      problems.push(`Column "${header}" needs a source of kind "field" or "constant".`);
+    }
+    if (c.transform !== undefined && !isOption(COLUMN_TRANSFORMS, c.transform)) {
+      problems.push(`Column "${header}" has an unknown transform "${c.transform}".`);
+    }
+    if (typeof c.width !== 'number' || !(c.width > 0)) problems.push(`Column "${header}" must have a positive width.`);
+    if (c.numberFormat !== undefined && typeof c.numberFormat !== 'string') {
+      problems.push(`Column "${header}" needs its number format as text.`);
+    }
+  });
+  return problems.concat(validateRuleSettings(profile));
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringList = (value: unknown) => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+const isOption = (options: { value: string }[], value: unknown) => options.some(o => o.value === value);
+
+/**
+ * Checks the shape of the optional rule settings, which the editors always
+ * produce correctly but profiles sent to the API as JSON may not.
+ */
+function validateRuleSettings(profile: MappingProfile): string[] {
+  const problems: string[] = [];
+  const { filterRules, performerRules, creditRules, durationRounding, durationSource } = profile;
+  if (filterRules !== undefined) {
+    if (!Array.isArray(filterRules)) problems.push('"filterRules" must be an array of rules.');
+    else filterRules.forEach((rule, i) => {
+      if (
+        !rule
+        || !['include', 'exclude'].includes(rule.action)
+        || !isOption(FILTER_FIELDS, rule.field)
+        || !isOption(FILTER_OPERATORS, rule.operator)
+        || typeof rule.value !== 'string'
+      ) {
+        problems.push(`Filter rule ${i + 1} needs a valid action, field, operator and text value.`);
+      }
+    });
+  }
+  if (performerRules !== undefined
+    && !(performerRules && isStringList(performerRules.separators) && isStringList(performerRules.knownGroups))) {
+    problems.push('"performerRules" needs "separators" and "knownGroups" lists of text.');
+  }
+  if (creditRules !== undefined && !(
+    creditRules
+    && isOption(CREDIT_LAYOUTS, creditRules.layout)
+    && isOption(UNSPLIT_CREDITS, creditRules.unsplit)
+    && isStringList(creditRules.separators)
+    && isStringList(creditRules.musicMarkers)
+    && isStringList(creditRules.lyricsMarkers)
+  )) {
+    problems.push('"creditRules" needs a valid layout and unsplit setting and "separators", "musicMarkers" and "lyricsMarkers" lists of text.');
+  }
+  if (durationRounding !== undefined && !isOption(DURATION_ROUNDINGS, durationRounding)) {
+    problems.push(`Unknown duration rounding "${durationRounding}".`);
+  }
+  if (durationSource !== undefined && !isOption(DURATION_SOURCES, durationSource)) {
+    problems.push(`Unknown duration source "${durationSource}".`);
+  }
+  return problems;
+}
+
+/** Applies a column transform to string values; other values pass through. */
+export function applyTransform(value: unknown, transform: ColumnTransform): unknown {
+  if (typeof value !== 'string') return value;
+  switch (transform) {
+    case 'trim': return value.trim();
+    case 'uppercase': return value.toLocaleUpperCase('ro-RO');
+    case 'lowercase': return value.toLocaleLowerCase('ro-RO');
+    case 'titlecase':
+      return value.toLocaleLowerCase('ro-RO').replace(/(^|[\s\-(/])(\p{L})/gu, (_, sep, ch) => sep + ch.toLocaleUpperCase('ro-RO'));
+    default: return value;
+  }
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { createBlankReportRow } from './report-editing';
+import { DEFAULT_PERFORMER_RULES, assignPerformers, createPerformerMatcher } from './performers';
+
+const matcher = createPerformerMatcher(DEFAULT_PERFORMER_RULES);
+
+describe('createPerformerMatcher', () => {
+  it('splits credits on featuring and and separators', () => {
+    expect(matcher.split('Smiley feat. Alex Velea & Connect-R').performers).toEqual(['Smiley', 'Alex Velea', 'Connect-R']);
+    expect(matcher.split('Inna x Sean Paul').performers).toEqual(['Inna', 'Sean Paul']);
+    expect(matcher.split('Andra și Marius').performers).toEqual(['Andra', 'Marius']);
+  });
+
+  it('keeps known groups whole and lists them as groups', () => {
+    expect(matcher.split('Zdob și Zdub')).toEqual({ performers: ['Zdob și Zdub'], groups: ['Zdob și Zdub'] });
+    expect(matcher.split('AC/DC')).toEqual({ performers: ['AC/DC'], groups: ['AC/DC'] });
+    expect(matcher.split('Earth, Wind & Fire')).toEqual({ performers: ['Earth, Wind & Fire'], groups: ['Earth, Wind & Fire'] });
+    expect(matcher.split('Smiley & Earth, Wind & Fire').performers).toEqual(['Smiley', 'Earth, Wind & Fire']);
+  });
+
+  it('does not split inside a name without spaces around the separator', () => {
+    expect(matcher.split('Malcolm X').performers).toEqual(['Malcolm X']);
+    expect(matcher.split('Xandra').performers).toEqual(['Xandra']);
+    expect(matcher.split('Sandra & Andrei').performers).toEqual(['Sandra', 'Andrei']);
+    expect(matcher.split('Peter/Paul').performers).toEqual(['Peter/Paul']);
+    expect(matcher.split('Peter / Paul').performers).toEqual(['Peter', 'Paul']);
+    expect(matcher.split('Peter, Paul').performers).toEqual(['Peter', 'Paul']);
+  });
+
+  it('finds a group only as a whole performer', () => {
+    expect(matcher.split('Iris Apfel').groups).toEqual([]);
+  });
+
+  it('uses extra groups, such as the catalogue\'s', () => {
+    const withCatalogue = createPerformerMatcher(DEFAULT_PERFORMER_RULES, ['Direcția 5 & Prietenii']);
+    expect(withCatalogue.split('Direcția 5 & Prietenii').performers).toEqual(['Direcția 5 & Prietenii']);
+  });
+});
+
+describe('assignPerformers', () => {
+  it('counts performers and keeps a group already on the row', () => {
+    const rows = [
+      { ...createBlankReportRow(2), artist: 'Queen & David Bowie' },
+      { ...createBlankReportRow(3), artist: 'Holograf', ensemble: 'Holograf Band' },
+      createBlankReportRow(4),
+    ];
+    expect(assignPerformers(rows, DEFAULT_PERFORMER_RULES).map(r => [r.performerCount, r.ensemble])).toEqual([
+      [2, 'Queen'],
+      [1, 'Holograf Band'],
+      ['', ''],
+    ]);
+  });
+});
@@ -0,0 +1,133 @@
+import type { ReportRow } from './excel-converter';
+import type { CatalogueEntry } from './track-catalogue';
+import { escapeRegExp, removeDiacritics } from './text-utils';
+
+/**
+ * Fills the "NR. DE ARTISTI" and "ORCHESTRA, FORMATIE, GRUP" columns from the
+ * artist credit. The credit is split on featuring/and separators to count the
+ * performers, and performers known to be groups are written to the group
+ * column. Known group names are never split, so "Zdob și Zdub" stays one
+ * performer even though "și" separates artists elsewhere.
+ */
+
+export interface PerformerRules {
+  /** Words or symbols between performer names, e.g. "feat." or "&". */
+  separators: string[];
+  /** Names of groups, bands and orchestras, in addition to those in the catalogue. */
+  knownGroups: string[];
+}
+
+export const DEFAULT_PERFORMER_RULES: PerformerRules = {
+  separators: ['feat.', 'ft.', 'featuring', 'vs.', 'x', '&', ',', '/', '+', 'și', 'si', 'and', 'with'],
+  knownGroups: [
+    'Holograf', 'Iris', 'Phoenix', 'Compact', 'Cargo', 'Voltaj', 'Vama', 'Vama Veche', 'Vița de Vie',
+    "Carla's Dreams", 'Akcent', 'O-Zone', 'Direcția 5', 'Taxi', 'Zdob și Zdub', 'Subcarpați', 'Coma',
+    'Byron', 'Trooper', 'Bosquito', 'Proconsul', '3rei Sud Est', 'Activ', 'Simplu', 'Morandi',
+    'The Motans', 'Fără Zahăr', 'Alternosfera', 'Șuie Paparude', 'Connect-R & Band', 'Queen', 'ABBA',
+    'The Beatles', 'Coldplay', 'U2', 'Maroon 5', 'Imagine Dragons', 'OneRepublic', 'AC/DC',
+    'Earth, Wind & Fire', 'Simon & Garfunkel', 'Mumford & Sons', 'Florence + The Machine',
+    'Kool & The Gang', 'Blood, Sweat & Tears', 'Crosby, Stills, Nash & Young', 'Hall & Oates'
+  ]
+};
+
+export interface PerformerCredit {
+  /** Performers in credit order, groups counting as one. */
+  performers: string[];
+  /** The performers that are known groups. */
+  groups: string[];
+}
+
+const fold = (text: string) => removeDiacritics(text).toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Separators only split where they stand apart from the names, so "AC/DC"
+ * and "Malcolm X" stay whole: words need a space (or bracket) on both sides
+ * and may end in a dot, symbols need a space on at least one side.
+ */
+function separatorSource(separators: string[]): string | null {
+  const parts = separators
+    .map(s => fold(s).replace(/\.$/, ''))
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+    .map(s => (/^[a-z0-9]/.test(s)
+      ? `(?<=[\\s([])${escapeRegExp(s)}\\.?(?=[\\s)\\]])`
+      : `(?:(?<=\\s)${escapeRegExp(s)}|${escapeRegExp(s)}(?=\\s))`));
+  return parts.length ? `\\s*(?:${parts.join('|')})\\s*` : null;
+}
+
+export interface PerformerMatcher {
+  split(artist: string): PerformerCredit;
+}
+
+/**
+ * Compiles the rules once for many credits.
+ *
+ * @param extraGroups Further group names, such as the catalogue's orchestras and groups.
+ */
+export function createPerformerMatcher(rules: PerformerRules, extraGroups: string[] = []): PerformerMatcher {
+  const separatorText = separatorSource(rules.separators);
+  const separator = separatorText ? new RegExp(separatorText, 'giu') : null;
+  const groups = new Map<string, string>();
+  for (const name of [...rules.knownGroups, ...extraGroups]) {
+    if (fold(name)) groups.set(fold(name), name.trim());
+  }
+  // A whole performer only, so "Iris" is not found in "Iris Apfel"; longest names first
+  const edge = separatorText ? `|${separatorText}` : '';
+  const names = Array.from(groups.keys()).sort((a, b) => b.length - a.length).map(escapeRegExp);
+  const groupPattern = names.length ? new RegExp(`(?<=^${edge})(?:${names.join('|')})(?=$${edge})`, 'giu') : null;
+
+  return {
+    split(artist) {
+      const credit: PerformerCredit = { performers: [], groups: [] };
+      // Folding keeps one character per letter, so positions carry over to the original
+      const folded = fold(artist);
+      const original = removeDiacritics(artist).replace(/\s+/g, ' ').trim();
+      const found: { start: number; end: number; name: string }[] = [];
+      for (const match of groupPattern ? folded.matchAll(groupPattern) : []) {
+        found.push({ start: match.index!, end: match.index! + match[0].length, name: groups.get(match[0])! });
+      }
+
+      // Group names are taken out before splitting on separators
+      let rest = '';
+      let position = 0;
+      for (const { start, end } of found) {
+        rest += `${original.slice(position, start)}\u0000`;
+        position = end;
+      }
+      rest += original.slice(position);
+
+      let groupIndex = 0;
+      for (const part of separator ? rest.split(separator) : [rest]) {
+        const name = part.trim();
+        if (name === '\u0000') {
+          const group = found[groupIndex++].name;
+          credit.performers.push(group);
+          credit.groups.push(group);
+        } else if (name) {
+          credit.performers.push(name);
+        }
+      }
+      return credit;
+    }
+  };
+}
+
+/**
+ * Counts the performers of each row and writes its known groups to the
+ * group column. Group values already on a row, from the catalogue or typed
+ * in, are kept. Rows without an artist are left blank.
+ */
+export function assignPerformers(rows: ReportRow[], rules: PerformerRules, catalogue: CatalogueEntry[] = []): ReportRow[] {
+  const matcher = createPerformerMatcher(rules, catalogue.map(e => e.ensemble ?? ''));
+  const credits = new Map<string, PerformerCredit>();
+  return rows.map(row => {
+    if (!row.artist.trim()) return row;
+    const credit = credits.get(row.artist) ?? matcher.split(row.artist);
+    credits.set(row.artist, credit);
+    return {
+      ...row,
+      performerCount: credit.performers.length,
+      ensemble: row.ensemble.trim() ? row.ensemble : credit.groups.join(', ')
+    };
+  });
+}
@@ -0,0 +1,164 @@
+import { addDays, format } from 'date-fns';
+import mysql from 'mysql2/promise';
+import {
+  convertReportRows, parseDatePart, parseTimePart, processReportRows, toYear, trackTypeName,
+  type ConvertOptions, type ReportRow,
+} from './excel-converter';
+import { ConversionError } from './conversion-error';
+import { splitDuration } from './durations';
+
+/**
+ * Reads plays straight from the `history` table of a RadioDJ MySQL/MariaDB
+ * database, as an alternative to exporting a CSV by hand. Server-side only:
+ * the connection settings come from the environment.
+ */
+
+/** `sourceFile` of rows read from the database. */
+export const HISTORY_SOURCE = 'history';
+
+export interface HistoryConnectionSettings {
+  host: string;
+  port: number;
+  user: string;
+  password: string;
+  database: string;
+}
+
+/** One `history` row joined with its subcategory name. */
+export interface HistoryRecord {
+  id: number;
+  /** `yyyy-MM-dd HH:mm:ss`, read as a string so no time zone is applied. */
+  date_played: string;
+  song_type: number | string;
+  /** Seconds, with a fractional part. */
+  duration: number | string;
+  artist: string | null;
+  title: string | null;
+  album: string | null;
+  composer: string | null;
+  publisher: string | null;
+  copyright: string | null;
+  year: string | number | null;
+  label: string | null;
+  isrc: string | null;
+  category: string | null;
+}
+
+const HISTORY_QUERY = `
+  SELECT h.ID AS id, h.date_played, h.song_type, h.duration, h.artist, h.title, h.album,
+         h.composer, h.publisher, h.copyright, h.year, h.label, h.isrc, s.name AS category
+  FROM history h
+  LEFT JOIN subcategory s ON s.ID = h.id_subcat
+  WHERE h.date_played >= ? AND h.date_played < ?
+  ORDER BY h.date_played, h.ID`;
+
+/**
+ * Connection settings from `RADIODJ_DB_HOST`, `RADIODJ_DB_PORT`,
+ * `RADIODJ_DB_USER`, `RADIODJ_DB_PASSWORD` and `RADIODJ_DB_NAME`.
+ * Throws a {@link ConversionError} when the host, user or password is not
+ * set; there is no default account, so nothing connects as root by accident.
+ * An empty password must be set explicitly as an empty variable.
+ */
+export function readHistorySettings(env: NodeJS.ProcessEnv = process.env): HistoryConnectionSettings {
+  const { RADIODJ_DB_HOST: host, RADIODJ_DB_USER: user, RADIODJ_DB_PASSWORD: password } = env;
+  const missing = [
+    !host && 'RADIODJ_DB_HOST',
+    !user && 'RADIODJ_DB_USER',
+    password === undefined && 'RADIODJ_DB_PASSWORD',
+  ].filter(Boolean);
+  if (!host || !user || password === undefined) {
+    throw new ConversionError('SOURCE_UNAVAILABLE', `The RadioDJ database is not configured (set ${missing.join(', ')}).`);
+  }
+  return {
+    host,
+    port: Number(env.RADIODJ_DB_PORT) || 3306,
+    user,
+    password,
+    database: env.RADIODJ_DB_NAME ?? 'radiodj'
+  };
+}
+
+/** Maps a `history` record onto the fields a CSV row is parsed into. */
+export function historyRecordToReportRow(record: HistoryRecord): ReportRow {
+  const dateTimeText = String(record.date_played).trim();
+  const [dateStr, timeStr = ''] = dateTimeText.split(' ');
+  const seconds = Number(record.duration);
+  const hasDuration = Number.isFinite(seconds) && seconds >= 0;
+  const duration = hasDuration ? splitDuration(seconds) : null;
+  return {
+    sourceRow: record.id,
+    sourceFile: HISTORY_SOURCE,
+    dateTimeText,
+    durationText: String(record.duration ?? ''),
+    durationSeconds: hasDuration ? seconds : undefined,
+    dateVal: parseDatePart(dateStr, 'yyyy-MM-dd') ?? dateStr,
+    show: '',
+    timeVal: parseTimePart(timeStr, '24h') ?? '',
+    mins: duration?.mins ?? '',
+    secs: duration?.secs ?? '',
+    title: record.title ?? '',
+    copy: record.copyright ?? '',
+    composer: record.composer ?? '',
+    artist: record.artist ?? '',
+    album: record.album ?? '',
+    pub: record.publisher ?? '',
+    year: toYear(String(record.year ?? '')),
+    trackType: trackTypeName(String(record.song_type ?? '')),
+    category: (record.category ?? '').trim(),
+    isrc: (record.isrc ?? '').trim(),
+    catalogNumber: '',
+    // RadioDJ keeps a label per track; the catalogue only fills it when blank
+    label: (record.label ?? '').trim(),
+    country: '',
+    ensemble: '',
+    recordingType: '',
+    performerCount: '',
+    musicAuthor: '',
+    lyricsAuthor: ''
+  };
+}
+
+/**
+ * Reads the plays of a whole-day date range from the `history` table.
+ * Both bounds are required so a forgotten option cannot pull years of history.
+ *
+ * @returns Rows in play order, before date range, schedule and filter processing.
+ */
+export async function fetchHistoryRows(
+  range: { from?: Date; to?: Date },
+  settings: HistoryConnectionSettings = readHistorySettings()
+): Promise<ReportRow[]> {
+  if (!range.from || !range.to) {
+    throw new ConversionError('INVALID_OPTION', 'Reading the RadioDJ history needs both a "from" and a "to" date.');
+  }
+  const bounds = [format(range.from, 'yyyy-MM-dd 00:00:00'), format(addDays(range.to, 1), 'yyyy-MM-dd 00:00:00')];
+
+  let connection: mysql.Connection;
+  try {
+    connection = await mysql.createConnection({ ...settings, dateStrings: true });
+  } catch (error: any) {
+    throw new ConversionError('SOURCE_UNAVAILABLE', `Cannot connect to the RadioDJ database: ${error.message}`);
+  }
+  try {
+    const [records] = await connection.query<(HistoryRecord & mysql.RowDataPacket)[]>(HISTORY_QUERY, bounds);
+    return records.map(historyRecordToReportRow);
+  } finally {
+    await connection.end();
+  }
+}
+
+/**
+ * Converts the plays of a date range, read from the RadioDJ database, to a
+ * report workbook; the database counterpart of `convertCsvToXls`.
+ *
+ * @param options Conversion options; `dateRange.from` and `dateRange.to` are required.
+ * @returns A promise that resolves to the file data as a Buffer.
+ */
+export async function convertHistoryToXls(
+  options: ConvertOptions = {},
+  settings?: HistoryConnectionSettings
+): Promise<Buffer> {
+  const rows = await fetchHistoryRows(options.dateRange ?? {}, settings);
+  if (!rows.length) throw new ConversionError('EMPTY_INPUT', 'The RadioDJ history has no plays in the date range.');
+  return convertReportRows(processReportRows(rows, options), { ...options, delimiter: options.delimiter ?? ';' });
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import type { ReportRow } from './excel-converter';
+import { assignAirtime } from './durations';
+import { createBlankReportRow, editReportRows, setReportField } from './report-editing';
+
+const play = (day: number, minutes: number, duration: number): ReportRow => ({
+  ...createBlankReportRow(2),
+  dateVal: new Date(2024, 0, day),
+  timeVal: new Date(1899, 11, 30, 10, minutes, 0),
+  durationSeconds: duration,
+  utcOffset: 120,
+});
+
+describe('setReportField', () => {
+  it('reads dates in the display format or the file format, never guessing', () => {
+    const row = createBlankReportRow(2);
+    expect(setReportField(row, 'dateVal', '2024-03-04').dateVal).toEqual(new Date(2024, 2, 4));
+    expect(setReportField(row, 'dateVal', '3/4/2024', 'M/d/yyyy').dateVal).toEqual(new Date(2024, 2, 4));
+    expect(setReportField(row, 'dateVal', '3/4/2024', 'd/M/yyyy').dateVal).toEqual(new Date(2024, 3, 3));
+    expect(setReportField(row, 'dateVal', '3/4/2024').dateVal).toBe('3/4/2024');
+  });
+});
+
+describe('editReportRows', () => {
+  it('measures airtime again for the moved play and the plays before its old and new time', () => {
+    const rows = assignAirtime([play(8, 0, 200), play(8, 3, 300), play(8, 6, 200), play(8, 10, 200)]);
+    expect(rows.map(r => r.airtimeSeconds)).toEqual([180, 180, 200, undefined]);
+    const edited = editReportRows(rows, 1, 'timeVal', '10:08:00');
+    expect(edited.map(r => r.airtimeSeconds)).toEqual([200, 120, 120, undefined]);
+    expect(edited[3]).toBe(rows[3]);
+  });
+
+  it('rounds effective durations of the changed plays', () => {
+    const rows = assignAirtime([play(8, 0, 200), play(8, 3, 200)]);
+    const edited = editReportRows(rows, 1, 'timeVal', '10:02:00', { durationSource: 'effective' });
+    expect(edited.map(r => [r.mins, r.secs])).toEqual([[2, 0], [3, 20]]);
+  });
+
+  it('places a play moved across a DST change in the new offset', () => {
+    const rows = [play(30, 0, 200)].map(r => ({ ...r, dateVal: new Date(2024, 2, 30) }));
+    const [moved] = editReportRows(rows, 0, 'dateVal', '2024-03-31', { timeZone: 'Europe/Bucharest' });
+    expect(moved.utcOffset).toBe(180);
+    expect(editReportRows(rows, 0, 'dateVal', 'tomorrow')[0].utcOffset).toBeUndefined();
+  });
+});
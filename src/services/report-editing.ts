@@ -0,0 +1,139 @@
+import { format } from 'date-fns';
+import { parseTimePart, toYear, type ReportRow, type RowTimingOptions } from './excel-converter';
+import { parseDateAs, type DateFormat } from './date-format-detection';
+import { DEFAULT_DURATION_ROUNDING, reassignAirtimeAround, roundDurations } from './durations';
+import type { ColumnSpec, ReportField } from './mapping-profiles';
+import { DEFAULT_TIME_ZONE, assignUtcOffsets } from './station-time';
+
+/** Display and editing format for parsed dates. */
+const DATE_DISPLAY_FORMAT: DateFormat = 'yyyy-MM-dd';
+const TIME_DISPLAY_FORMAT = 'HH:mm:ss';
+
+/** Renders a mapped cell value as editable text. */
+export function formatCellText(value: unknown, column: ColumnSpec): string {
+  if (value instanceof Date) {
+    const isTime = column.source.kind === 'field' && column.source.field === 'timeVal';
+    return format(value, isTime ? TIME_DISPLAY_FORMAT : DATE_DISPLAY_FORMAT);
+  }
+  return value == null ? '' : String(value);
+}
+
+function dateTimeTextOf(row: ReportRow): string {
+  const date = row.dateVal instanceof Date ? format(row.dateVal, DATE_DISPLAY_FORMAT) : row.dateVal;
+  const time = row.timeVal instanceof Date ? format(row.timeVal, TIME_DISPLAY_FORMAT) : row.timeVal;
+  return [date, time].filter(Boolean).join(' ');
+}
+
+/**
+ * Returns a copy of the row with one field replaced by edited text, parsed
+ * the same way the converter parses CSV input so the cell keeps its type.
+ * Dates are read in the display format or the row's file's date format,
+ * never guessed.
+ *
+ * @param dateFormat The date format of the row's file.
+ */
+export function setReportField(row: ReportRow, field: ReportField, text: string, dateFormat?: DateFormat): ReportRow {
+  const value = text.trim();
+  const next: ReportRow = { ...row };
+  switch (field) {
+    case 'dateVal':
+      next.dateVal = parseDateAs(value, DATE_DISPLAY_FORMAT) ?? (dateFormat && parseDateAs(value, dateFormat)) ?? value;
+      next.dateTimeText = dateTimeTextOf(next);
+      break;
+    case 'timeVal':
+      next.timeVal = parseTimePart(value) ?? value;
+      next.dateTimeText = dateTimeTextOf(next);
+      break;
+    case 'performerCount':
+      next.performerCount = value === '' || isNaN(Number(value)) ? value : Number(value);
+      break;
+    case 'mins':
+    case 'secs': {
+      const num = value === '' || isNaN(Number(value)) ? value : Number(value);
+      next[field] = num;
+      next.durationText = `${next.mins}:${next.secs}`;
+      next.durationSeconds = typeof next.mins === 'number' && typeof next.secs === 'number'
+        ? next.mins * 60 + next.secs
+        : undefined;
+      break;
+    }
+    case 'year':
+      next.year = toYear(value);
+      break;
+    default:
+      next[field] = text;
+  }
+  return next;
+}
+
+/**
+ * Returns the rows with one field of one row edited, see
+ * {@link setReportField}. A new date or time moves the play: its UTC offset
+ * is set again, and its airtime and that of the plays before its old and
+ * new time are measured again and rounded as the profile asks. Airtime is
+ * measured against the report's rows, as plays left out of the report are
+ * no longer at hand.
+ *
+ * @param options The station time zone and the profile's duration settings.
+ * @param dateFormat The date format of the row's file.
+ */
+export function editReportRows(
+  rows: ReportRow[],
+  index: number,
+  field: ReportField,
+  text: string,
+  options: RowTimingOptions = {},
+  dateFormat?: DateFormat
+): ReportRow[] {
+  const edited = setReportField(rows[index], field, text, dateFormat);
+  const next = rows.slice();
+  if (field !== 'dateVal' && field !== 'timeVal') {
+    next[index] = edited;
+    return next;
+  }
+  // A date or time that no longer parses leaves the play without an offset
+  const unplaced = { ...edited, utcOffset: undefined, dstTransition: undefined };
+  [next[index]] = assignUtcOffsets([unplaced], options.timeZone ?? DEFAULT_TIME_ZONE);
+  const measured = reassignAirtimeAround(rows, next, index);
+  return measured.map((row, i) => (row === next[i] ? row : roundDurations(
+    [row],
+    options.durationRounding ?? DEFAULT_DURATION_ROUNDING,
+    options.durationSource
+  )[0]));
+}
+
+/**
+ * An empty row to be filled in from the preview. It belongs to `sourceFile`
+ * so per-file output keeps it when several files are converted together.
+ */
+export function createBlankReportRow(sourceRow: number, sourceFile?: string): ReportRow {
+  return {
+    sourceRow,
+    sourceFile,
+    dateTimeText: '',
+    durationText: '',
+    dateVal: '',
+    show: '',
+    timeVal: '',
+    mins: '',
+    secs: '',
+    title: '',
+    copy: '',
+    composer: '',
+    artist: '',
+    album: '',
+    pub: '',
+    year: '',
+    trackType: '',
+    category: '',
+    isrc: '',
+    catalogNumber: '',
+    label: '',
+    country: '',
+    ensemble: '',
+    recordingType: '',
+    performerCount: '',
+    musicAuthor: '',
+    lyricsAuthor: ''
+  };
+}
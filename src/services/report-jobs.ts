@@ -0,0 +1,216 @@
+import {
+  OUTPUT_FORMATS, convertReportRows, detectReportDateFormat, fillReportRows, parseReportRows, timeReportRows,
+  type ConvertOptions, type ReportRow,
+} from './excel-converter';
+import { convertBatch, type BatchInput, type BatchMode, type BatchOutput } from './batch-converter';
+import { ConversionError, type ConversionErrorCode } from './conversion-error';
+import type { DateRange } from './date-range';
+import type { DateFormat, DateFormatDetection } from './date-format-detection';
+import type { DurationRounding, DurationSource } from './durations';
+import { groupTrackVariants, type MatchDecision, type MatchSuggestion } from './fuzzy-match';
+import type { MappingProfile } from './mapping-profiles';
+import { computeReportStatistics, type ReportStatistics } from './report-statistics';
+import { summarizeReport, type ReportSummary } from './report-summary';
+import { validateReportRows, type ValidationIssue } from './report-validation';
+import type { ShowSchedule } from './show-schedule';
+import { uncertainCatalogueMatches, type CatalogueEntry } from './track-catalogue';
+
+/**
+ * The heavy steps of the web app as jobs for the report worker, so large
+ * monthly exports do not freeze the page: reading the CSV files up to the
+ * reporting period, preparing those plays for the report, checking and
+ * charting the rows, and writing the report file. Jobs and their results
+ * are plain data, posted to and from the worker.
+ */
+
+export interface CsvJobInput {
+  name: string;
+  csvData: string;
+  delimiter: string;
+  quote: string;
+}
+
+/** Parses the files and prepares their plays up to the reporting period. */
+export interface ParseJob {
+  kind: 'parse';
+  inputs: CsvJobInput[];
+  /** Date format for all files; detected per file when omitted. */
+  dateFormat?: DateFormat;
+  timeZone: string;
+  /** The profile's duration settings. */
+  durationRounding?: DurationRounding;
+  durationSource?: DurationSource;
+  dateRange: DateRange;
+}
+
+/** A {@link ConversionError} passed back from the worker as plain data. */
+export interface JobError {
+  code: ConversionErrorCode;
+  message: string;
+}
+
+export interface ParseJobResult {
+  /** Detected date format per input; `undefined` for files that could not be read. */
+  dates: (DateFormatDetection | undefined)[];
+  /** Plays within the reporting period; `null` when a file could not be parsed. */
+  rows: ReportRow[] | null;
+  /** Why the first file that could not be parsed failed, named when there are several. */
+  error?: JobError;
+  /** Plays parsed from all files, before the reporting period. */
+  parsedCount: number;
+}
+
+/**
+ * Fills in the plays of the reporting period from the user's credit rules,
+ * catalogue, match decisions and show schedule, then drops what the
+ * profile's filter rules leave out.
+ */
+export interface PrepareJob {
+  kind: 'prepare';
+  rows: ReportRow[];
+  profile: MappingProfile;
+  catalogue: CatalogueEntry[];
+  decisions: MatchDecision[];
+  schedule: ShowSchedule;
+}
+
+/** Validation, statistics and spelling variants of the report rows. */
+export interface ReportAnalysis {
+  issues: ValidationIssue[];
+  statistics: ReportStatistics;
+  summary: ReportSummary;
+  /** Variants among the rows matched too loosely to each other to group them. */
+  variantSuggestions: MatchSuggestion[];
+}
+
+export interface PrepareJobResult extends ReportAnalysis {
+  /** The rows of the report. */
+  kept: ReportRow[];
+  /** Plays excluded by the filter rules. */
+  droppedCount: number;
+  /** Plays matching a catalogue entry too loosely to fill them in, one per track. */
+  catalogueSuggestions: MatchSuggestion[];
+}
+
+/** Analyses report rows again, e.g. after edits in the preview. */
+export interface AnalyseJob {
+  kind: 'analyse';
+  rows: ReportRow[];
+  decisions: MatchDecision[];
+}
+
+/** Writes the report file; several inputs are combined by `mode`. */
+export interface WriteJob {
+  kind: 'write';
+  inputs: BatchInput[];
+  mode: BatchMode;
+  options: ConvertOptions;
+}
+
+export type ReportJob = ParseJob | PrepareJob | AnalyseJob | WriteJob;
+
+export type ReportJobResult<J extends ReportJob> =
+  J extends ParseJob ? ParseJobResult
+  : J extends PrepareJob ? PrepareJobResult
+  : J extends AnalyseJob ? ReportAnalysis
+  : BatchOutput;
+
+export interface JobProgress {
+  /** What the job is doing, e.g. "Reading 2026-09.csv". */
+  stage: string;
+  /** 0 to 100. */
+  percent: number;
+}
+
+/** Messages from the worker to the page. */
+export type ReportWorkerMessage =
+  | { type: 'progress'; progress: JobProgress }
+  | { type: 'done'; result: ReportJobResult<ReportJob> }
+  | { type: 'error'; message: string };
+
+/** Rejects the promise of a job cancelled by the user or replaced by a newer one. */
+export class JobCancelledError extends Error {
+  constructor() {
+    super('The job was cancelled.');
+    this.name = 'JobCancelledError';
+  }
+}
+
+// Share of the parse job spent reading the files; the rest goes to the later steps
+const READING_SHARE = 80;
+
+function runParseJob(job: ParseJob, onProgress: (progress: JobProgress) => void): ParseJobResult {
+  const dates: (DateFormatDetection | undefined)[] = [];
+  let parsed: ReportRow[] = [];
+  let error: JobError | undefined;
+  job.inputs.forEach(({ name, csvData, delimiter, quote }, i) => {
+    const share = READING_SHARE / job.inputs.length;
+    const stage = `Reading ${name}`;
+    onProgress({ stage, percent: i * share });
+    try {
+      dates.push(detectReportDateFormat(csvData, { delimiter, quote }));
+    } catch {
+      dates.push(undefined);
+    }
+    if (error) return;
+    try {
+      parsed = parsed.concat(parseReportRows(csvData, {
+        delimiter,
+        quote,
+        dateFormat: job.dateFormat,
+        sourceFile: name,
+        onProgress: (done, total) => onProgress({ stage, percent: (i + done / total) * share }),
+      }));
+    } catch (caught) {
+      // Problems with the input are the user's to fix; anything else fails the job
+      if (!(caught instanceof ConversionError)) throw caught;
+      error = { code: caught.code, message: job.inputs.length > 1 ? `${name}: ${caught.message}` : caught.message };
+    }
+  });
+  if (error) return { dates, rows: null, error, parsedCount: 0 };
+
+  onProgress({ stage: 'Placing plays in the station time zone and measuring durations', percent: READING_SHARE });
+  return { dates, rows: timeReportRows(parsed, job), parsedCount: parsed.length };
+}
+
+function runPrepareJob(job: PrepareJob, onProgress: (progress: JobProgress) => void): PrepareJobResult {
+  const { rows, profile, catalogue, decisions, schedule } = job;
+  const { kept, dropped } = fillReportRows(rows, { profile, catalogue, decisions, schedule }, (done, total) =>
+    onProgress({ stage: 'Filling in the report rows', percent: done / total * 50 }));
+  onProgress({ stage: 'Matching the track catalogue', percent: 50 });
+  const catalogueSuggestions = uncertainCatalogueMatches(rows, catalogue, decisions);
+  const analysis = runAnalyseJob({ kind: 'analyse', rows: kept, decisions }, progress =>
+    onProgress({ stage: progress.stage, percent: 60 + progress.percent * 0.4 }));
+  return { ...analysis, kept, droppedCount: dropped.length, catalogueSuggestions };
+}
+
+function runAnalyseJob(job: AnalyseJob, onProgress: (progress: JobProgress) => void): ReportAnalysis {
+  onProgress({ stage: 'Validating rows', percent: 0 });
+  const issues = validateReportRows(job.rows);
+  onProgress({ stage: 'Grouping spelling variants', percent: 25 });
+  const { suggestions } = groupTrackVariants(job.rows, job.decisions);
+  onProgress({ stage: 'Computing statistics', percent: 60 });
+  return {
+    issues,
+    statistics: computeReportStatistics(job.rows, job.decisions),
+    summary: summarizeReport(job.rows, job.decisions),
+    variantSuggestions: suggestions,
+  };
+}
+
+function runWriteJob(job: WriteJob, onProgress: (progress: JobProgress) => void): BatchOutput {
+  onProgress({ stage: 'Writing the report', percent: 0 });
+  if (job.inputs.length !== 1) return convertBatch(job.inputs, job.mode, job.options);
+  const format = OUTPUT_FORMATS[job.options.format ?? 'xls'];
+  return { data: convertReportRows(job.inputs[0].rows, job.options), extension: format.extension, mimeType: format.mimeType };
+}
+
+/** Runs a job to completion, reporting progress along the way. */
+export function runReportJob(job: ReportJob, onProgress: (progress: JobProgress) => void): ReportJobResult<ReportJob> {
+  switch (job.kind) {
+    case 'parse': return runParseJob(job, onProgress);
+    case 'prepare': return runPrepareJob(job, onProgress);
+    case 'analyse': return runAnalyseJob(job, onProgress);
+    case 'write': return runWriteJob(job, onProgress);
+  }
+}
@@ -0,0 +1,101 @@
+import { format, getISODay } from 'date-fns';
+import type { ReportRow } from './excel-converter';
+import {
+  canonicalTrack, groupTrackVariants, primaryArtist, primaryArtistKey, type MatchDecision,
+} from './fuzzy-match';
+import { playedSeconds, topEntries, type SummaryEntry } from './report-summary';
+import { removeDiacritics } from './text-utils';
+
+/** Entries shown in the dashboard's top artists and top titles charts. */
+export const DASHBOARD_TOP_SIZE = 20;
+
+export type Repertoire = 'romanian' | 'foreign';
+
+export interface DayEntry {
+  /** `yyyy-MM-dd` */
+  date: string;
+  plays: number;
+  seconds: number;
+}
+
+export interface ReportStatistics {
+  /** Days with plays, in date order; rows without a parsed date are left out. */
+  playsPerDay: DayEntry[];
+  /** Airtime in seconds by ISO weekday (index 0 = Monday) and hour of day. */
+  airtimeByWeekdayHour: number[][];
+  topArtists: SummaryEntry[];
+  topTitles: SummaryEntry[];
+  repertoire: Record<Repertoire, { plays: number; seconds: number }>;
+}
+
+const ROMANIAN_LETTERS = /[ăâîșşțţ]/i;
+
+// Common words that rarely appear in titles in other languages
+const ROMANIAN_WORDS = new Set([
+  'si', 'sunt', 'esti', 'este', 'vreau', 'pentru', 'iubire', 'dragoste', 'inima', 'noapte', 'dor', 'doar',
+  'numai', 'acasa', 'mea', 'meu', 'tine', 'mine', 'fata', 'baiat', 'vara', 'iarna', 'viata', 'lume', 'cand'
+]);
+
+const ROMANIA = new Set(['ro', 'rou', 'romania']);
+
+/**
+ * Whether a play is Romanian repertoire, from the catalogue's country when
+ * known. Otherwise estimated from Romanian letters or common Romanian words
+ * in its title and artist, a heuristic for the dashboard only.
+ */
+export function classifyRepertoire(row: ReportRow): Repertoire {
+  const country = removeDiacritics(row.country).trim().toLowerCase();
+  if (country) return ROMANIA.has(country) ? 'romanian' : 'foreign';
+  const text = `${row.title} ${row.artist}`;
+  if (ROMANIAN_LETTERS.test(text)) return 'romanian';
+  const words = removeDiacritics(text).toLowerCase().split(/[^a-z]+/);
+  return words.some(w => ROMANIAN_WORDS.has(w)) ? 'romanian' : 'foreign';
+}
+
+/**
+ * Aggregates the rows for the statistics dashboard. Artists are counted by
+ * their first credit, and spelling variants of a title are counted together.
+ *
+ * @param decisions Confirmed and rejected matches from the review screen.
+ */
+export function computeReportStatistics(rows: ReportRow[], decisions: MatchDecision[] = []): ReportStatistics {
+  const days = new Map<string, DayEntry>();
+  const airtimeByWeekdayHour = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+  const repertoire: ReportStatistics['repertoire'] = {
+    romanian: { plays: 0, seconds: 0 },
+    foreign: { plays: 0, seconds: 0 }
+  };
+
+  for (const row of rows) {
+    const seconds = playedSeconds(row);
+    const share = repertoire[classifyRepertoire(row)];
+    share.plays++;
+    share.seconds += seconds;
+
+    if (!(row.dateVal instanceof Date)) continue;
+    const date = format(row.dateVal, 'yyyy-MM-dd');
+    const day = days.get(date) ?? { date, plays: 0, seconds: 0 };
+    day.plays++;
+    day.seconds += seconds;
+    days.set(date, day);
+    if (row.timeVal instanceof Date) {
+      airtimeByWeekdayHour[getISODay(row.dateVal) - 1][row.timeVal.getHours()] += seconds;
+    }
+  }
+
+  const groups = groupTrackVariants(rows, decisions);
+  const groupOf = (key: string) => groups.groupOf.get(key) ?? key;
+  // Named after the group's most played variant
+  const titleOf = (row: ReportRow) => {
+    const { artist, title } = groups.names.get(groupOf(canonicalTrack(row).key)) ?? row;
+    return title && artist ? `${title} – ${artist}` : title;
+  };
+
+  return {
+    playsPerDay: Array.from(days.values()).sort((a, b) => a.date.localeCompare(b.date)),
+    airtimeByWeekdayHour,
+    topArtists: topEntries(rows, r => primaryArtist(r.artist), DASHBOARD_TOP_SIZE, r => primaryArtistKey(r.artist)),
+    topTitles: topEntries(rows, titleOf, DASHBOARD_TOP_SIZE, r => groupOf(canonicalTrack(r).key)),
+    repertoire
+  };
+}
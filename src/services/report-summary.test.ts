@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import type { ReportRow } from './excel-converter';
+import { createBlankReportRow } from './report-editing';
+import { summarizeReport } from './report-summary';
+
+const play = (artist: string, title: string, pub = ''): ReportRow =>
+  ({ ...createBlankReportRow(2), artist, title, pub, mins: 3, secs: 0, timeVal: new Date(1899, 11, 30, 10, 15) });
+
+describe('summarizeReport', () => {
+  const rows = [
+    play('Smiley feat. Alex Velea', 'Dor de tine', 'Cat Music'),
+    play('SMILEY & Alex Velea', 'Dor De Tine (Radio Edit)', 'CAT MUSIC'),
+    play('Alex Velea & Smiley', 'Dor de tinee', 'Cat Music.'),
+    play('Inna', 'Hot', 'Roton'),
+  ];
+
+  it('counts the spelling variants of a track once', () => {
+    expect(summarizeReport(rows).uniqueTracks).toBe(2);
+  });
+
+  it('groups artist credits and publishers written differently', () => {
+    const summary = summarizeReport(rows);
+    expect(summary.topArtists).toEqual([
+      { name: 'Smiley feat. Alex Velea', plays: 3, seconds: 540 },
+      { name: 'Inna', plays: 1, seconds: 180 },
+    ]);
+    expect(summary.topPublishers.map(p => [p.name, p.plays])).toEqual([['Cat Music', 3], ['Roton', 1]]);
+  });
+
+  it('counts plays and airtime per hour', () => {
+    const summary = summarizeReport([...rows, { ...play('Inna', 'Hot'), timeVal: '' }]);
+    expect(summary.plays).toBe(5);
+    expect(summary.totalSeconds).toBe(900);
+    expect(summary.playsPerHour[10]).toEqual({ hour: 10, plays: 4, seconds: 720 });
+    expect(summary.playsPerHour[24]).toEqual({ hour: null, plays: 1, seconds: 180 });
+  });
+});
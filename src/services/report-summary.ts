@@ -0,0 +1,156 @@
+import * as XLSX from 'xlsx';
+import type { ReportRow } from './excel-converter';
+import { canonicalTrack, creditKey, groupTrackVariants, type MatchDecision } from './fuzzy-match';
+import { normalizeText } from './text-utils';
+
+export const SUMMARY_SHEET_NAME = 'SUMAR';
+
+/** Entries listed in the top artists and top publishers tables. */
+export const TOP_LIST_SIZE = 10;
+
+export interface SummaryEntry {
+  name: string;
+  plays: number;
+  seconds: number;
+}
+
+export interface HourEntry {
+  /** Hour of day 0–23, or `null` for plays whose time did not parse. */
+  hour: number | null;
+  plays: number;
+  seconds: number;
+}
+
+export interface ReportSummary {
+  plays: number;
+  totalSeconds: number;
+  /** Distinct tracks, counting the spelling variants of a track once. */
+  uniqueTracks: number;
+  topArtists: SummaryEntry[];
+  topPublishers: SummaryEntry[];
+  /** One entry per hour of day, followed by the plays without a time. */
+  playsPerHour: HourEntry[];
+}
+
+/** Played duration in seconds; unparsed durations count as zero. */
+export function playedSeconds(row: ReportRow): number {
+  const mins = typeof row.mins === 'number' ? row.mins : 0;
+  const secs = typeof row.secs === 'number' ? row.secs : 0;
+  return mins * 60 + secs;
+}
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+/**
+ * Most played names first, ties by name; blank names are left out.
+ *
+ * @param keyOf Groups rows under one entry, named after the first row;
+ *   by default rows whose names differ only in case.
+ */
+export function topEntries(
+  rows: ReportRow[],
+  nameOf: (row: ReportRow) => string,
+  limit = TOP_LIST_SIZE,
+  keyOf: (row: ReportRow) => string = row => normalize(nameOf(row))
+): SummaryEntry[] {
+  const entries = new Map<string, SummaryEntry>();
+  for (const row of rows) {
+    const name = nameOf(row).trim();
+    if (!name) continue;
+    const key = keyOf(row);
+    const entry = entries.get(key) ?? { name, plays: 0, seconds: 0 };
+    entry.plays++;
+    entry.seconds += playedSeconds(row);
+    entries.set(key, entry);
+  }
+  return Array.from(entries.values())
+    .sort((a, b) => b.plays - a.plays || a.name.localeCompare(b.name))
+    .slice(0, limit);
+}
+
+/**
+ * Aggregates the rows written to the report. Tracks, artists and publishers
+ * are counted the way the catalogue matches them, so spelling variants and
+ * reordered credits do not count twice.
+ *
+ * @param decisions Confirmed and rejected matches from the review screen.
+ */
+export function summarizeReport(rows: ReportRow[], decisions: MatchDecision[] = []): ReportSummary {
+  const playsPerHour: HourEntry[] = [
+    ...Array.from({ length: 24 }, (_, hour) => ({ hour, plays: 0, seconds: 0 })),
+    { hour: null, plays: 0, seconds: 0 }
+  ];
+  for (const row of rows) {
+    const entry = playsPerHour[row.timeVal instanceof Date ? row.timeVal.getHours() : 24];
+    entry.plays++;
+    entry.seconds += playedSeconds(row);
+  }
+
+  const { groupOf } = groupTrackVariants(rows, decisions);
+  const tracks = new Set(rows.map(row => {
+    const { key } = canonicalTrack(row);
+    return groupOf.get(key) ?? key;
+  }));
+  return {
+    plays: rows.length,
+    totalSeconds: rows.reduce((total, row) => total + playedSeconds(row), 0),
+    uniqueTracks: tracks.size,
+    topArtists: topEntries(rows, r => r.artist, TOP_LIST_SIZE, r => creditKey(r.artist)),
+    topPublishers: topEntries(rows, r => r.pub, TOP_LIST_SIZE, r => normalizeText(r.pub)),
+    playsPerHour
+  };
+}
+
+const minutes = (seconds: number) => Math.round((seconds / 60) * 100) / 100;
+
+/**
+ * Lays out the summary as a worksheet. Totals are `SUM` formulas over the
+ * per-hour table (with their computed values cached) so they can be audited.
+ * The formulas survive in XLSX and ODS; legacy XLS output keeps the values.
+ */
+export function buildSummarySheet(rows: ReportRow[], decisions: MatchDecision[] = []): XLSX.WorkSheet {
+  const summary = summarizeReport(rows, decisions);
+  const hourMinutes = summary.playsPerHour.map(h => minutes(h.seconds));
+  // Matches what the SUM formula gives over the rounded per-hour values
+  const totalMinutes = Math.round(hourMinutes.reduce((a, b) => a + b, 0) * 100) / 100;
+  const aoa: unknown[][] = [
+    ['SUMAR'],
+    [],
+    ['NUMAR DIFUZARI', summary.plays],
+    ['TOTAL MINUTE DIFUZATE', totalMinutes],
+    ['PIESE UNICE', summary.uniqueTracks],
+    [],
+    ['ORA', 'DIFUZARI', 'MINUTE']
+  ];
+
+  const hoursStart = aoa.length;
+  summary.playsPerHour.forEach(({ hour, plays }, i) => {
+    aoa.push([hour === null ? 'FARA ORA' : `${String(hour).padStart(2, '0')}:00`, plays, hourMinutes[i]]);
+  });
+  const hoursEnd = aoa.length - 1;
+  const totalRow = aoa.length;
+  aoa.push(['TOTAL', summary.plays, totalMinutes]);
+
+  const addTop = (title: string, header: string, entries: SummaryEntry[]) => {
+    aoa.push([], [title], [header, 'DIFUZARI', 'MINUTE']);
+    for (const entry of entries) aoa.push([entry.name, entry.plays, minutes(entry.seconds)]);
+  };
+  addTop(`ARTISTI (TOP ${TOP_LIST_SIZE})`, 'ARTIST', summary.topArtists);
+  addTop(`PRODUCATORI (TOP ${TOP_LIST_SIZE})`, 'PRODUCATOR', summary.topPublishers);
+
+  const ws = XLSX.utils.aoa_to_sheet(aoa);
+  const ref = (c: number, r: number) => XLSX.utils.encode_cell({ c, r });
+  const sum = (c: number) => `SUM(${ref(c, hoursStart)}:${ref(c, hoursEnd)})`;
+  ws[ref(1, totalRow)].f = sum(1);
+  ws[ref(2, totalRow)].f = sum(2);
+  ws[ref(1, 2)].f = ref(1, totalRow);
+  ws[ref(1, 3)].f = ref(2, totalRow);
+
+  for (let r = 0; r < aoa.length; r++) {
+    const cell = ws[ref(2, r)];
+    if (cell?.t === 'n') cell.z = '0.00';
+  }
+  ws[ref(1, 3)].z = '0.00';
+  ws['!cols'] = [{ wch: 32 }, { wch: 12 }, { wch: 12 }];
+  return ws;
+}
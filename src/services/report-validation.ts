@@ -0,0 +1,128 @@
+import * as XLSX from 'xlsx';
+import type { ReportRow } from './excel-converter';
+import { formatOffset } from './station-time';
+
+export type IssueSeverity = 'error' | 'warning';
+
+export type IssueCode =
+  | 'invalid-date'
+  | 'invalid-time'
+  | 'invalid-duration'
+  | 'zero-duration'
+  | 'long-duration'
+  | 'missing-title'
+  | 'missing-artist'
+  | 'missing-music-author'
+  | 'missing-lyrics-author'
+  | 'repeated-hour'
+  | 'skipped-hour';
+
+export interface ValidationIssue {
+  /** 1-based row number in the source file; the header is row 1. */
+  row: number;
+  /** Source file name when several files are converted together. */
+  file?: string;
+  severity: IssueSeverity;
+  code: IssueCode;
+  message: string;
+}
+
+export const VALIDATION_SHEET_NAME = 'VALIDARE';
+
+/** Plays longer than this are almost certainly a logging or parsing error. */
+export const MAX_PLAUSIBLE_DURATION_SECONDS = 30 * 60;
+
+const isBlank = (value: unknown) => String(value ?? '').trim() === '';
+
+/**
+ * Checks parsed rows for problems a collecting society would reject:
+ * unparseable date/time or duration, missing title/artist (errors), and
+ * zero or implausibly long durations, missing credits or times around a
+ * daylight saving change (warnings).
+ *
+ * @param rows Rows processed by `processReportRows`, with their authors split.
+ * @returns Issues ordered by file and row, errors before warnings within a row.
+ */
+export function validateReportRows(rows: ReportRow[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  for (const r of rows) {
+    const add = (severity: IssueSeverity, code: IssueCode, message: string) =>
+      issues.push({ row: r.sourceRow, file: r.sourceFile, severity, code, message });
+
+    if (!(r.dateVal instanceof Date)) {
+      add('error', 'invalid-date', r.dateTimeText
+        ? `Could not parse the date in "${r.dateTimeText}".`
+        : 'Date/Time Played is missing.');
+    }
+    if (!(r.timeVal instanceof Date) && r.dateTimeText) {
+      add('error', 'invalid-time', `Could not parse the time in "${r.dateTimeText}".`);
+    }
+    if (typeof r.mins !== 'number' || typeof r.secs !== 'number') {
+      add('error', 'invalid-duration', r.durationText
+        ? `Could not parse the duration "${r.durationText}"; expected mm:ss, hh:mm:ss or seconds, optionally with a fraction.`
+        : 'Duration is missing.');
+    } else {
+      const total = r.mins * 60 + r.secs;
+      if (total <= 0) add('warning', 'zero-duration', 'Duration is zero.');
+      else if (total > MAX_PLAUSIBLE_DURATION_SECONDS) {
+        add('warning', 'long-duration', `Duration "${r.durationText}" is longer than ${MAX_PLAUSIBLE_DURATION_SECONDS / 60} minutes.`);
+      }
+    }
+    if (r.dstTransition && typeof r.utcOffset === 'number') {
+      const taken = `taken as UTC${formatOffset(r.utcOffset)}`;
+      if (r.dstTransition === 'repeated') {
+        add('warning', 'repeated-hour', `"${r.dateTimeText}" falls in the hour repeated when clocks go back; ${taken} from the order of plays.`);
+      } else {
+        add('warning', 'skipped-hour', `"${r.dateTimeText}" falls in the hour skipped when clocks go forward; ${taken}.`);
+      }
+    }
+    if (isBlank(r.title)) add('error', 'missing-title', 'Title is missing.');
+    if (isBlank(r.artist)) add('error', 'missing-artist', 'Artist is missing.');
+    if (isBlank(r.musicAuthor)) add('warning', 'missing-music-author', 'Music author is missing.');
+    if (isBlank(r.lyricsAuthor)) add('warning', 'missing-lyrics-author', 'Lyrics author is missing.');
+  }
+  return issues.sort((a, b) =>
+    (a.file ?? '').localeCompare(b.file ?? '')
+    || a.row - b.row
+    || (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+}
+
+/** Counts issues by severity. */
+export function summarizeIssues(issues: ValidationIssue[]): Record<IssueSeverity, number> {
+  return {
+    error: issues.filter(i => i.severity === 'error').length,
+    warning: issues.filter(i => i.severity === 'warning').length
+  };
+}
+
+/**
+ * Keeps the first `limit` issues of each code, in order, so a problem
+ * repeated on every row of a large file does not flood the list.
+ *
+ * @returns The kept issues and how many of each code were left out.
+ */
+export function capIssuesPerCode(
+  issues: ValidationIssue[],
+  limit: number
+): { shown: ValidationIssue[]; hidden: Partial<Record<IssueCode, number>> } {
+  const seen: Partial<Record<IssueCode, number>> = {};
+  const hidden: Partial<Record<IssueCode, number>> = {};
+  const shown = issues.filter(issue => {
+    const count = (seen[issue.code] ?? 0) + 1;
+    seen[issue.code] = count;
+    if (count <= limit) return true;
+    hidden[issue.code] = (hidden[issue.code] ?? 0) + 1;
+    return false;
+  });
+  return { shown, hidden };
+}
+
+/** Lays out validation issues as a worksheet for the optional extra sheet. */
+export function buildValidationSheet(issues: ValidationIssue[]): XLSX.WorkSheet {
+  const ws = XLSX.utils.aoa_to_sheet([
+    ['FISIER', 'RAND', 'GRAVITATE', 'COD', 'MESAJ'],
+    ...issues.map(i => [i.file ?? '', i.row, i.severity === 'error' ? 'EROARE' : 'AVERTISMENT', i.code, i.message])
+  ]);
+  ws['!cols'] = [{ wch: 24 }, { wch: 6 }, { wch: 14 }, { wch: 18 }, { wch: 80 }];
+  return ws;
+}
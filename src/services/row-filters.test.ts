@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import type { ReportRow } from './excel-converter';
+import { createBlankReportRow } from './report-editing';
+import { DEFAULT_FILTER_RULES, applyRowFilters, type FilterRule } from './row-filters';
+
+const row = (fields: Partial<ReportRow>): ReportRow => ({ ...createBlankReportRow(2), ...fields });
+
+const rule = (fields: Partial<FilterRule>): FilterRule => ({
+  id: 'rule', action: 'exclude', field: 'title', operator: 'contains', value: '', enabled: true, ...fields,
+});
+
+describe('applyRowFilters', () => {
+  const song = row({ title: 'Dragostea din tei', trackType: 'Music', mins: 3, secs: 35 });
+  const jingle = row({ title: 'Station ID', trackType: 'Jingle', mins: 0, secs: 8 });
+  const news = row({ title: 'Știri', trackType: 'News', mins: 2, secs: 0 });
+
+  it('keeps every row without rules', () => {
+    expect(applyRowFilters([song, jingle])).toEqual({ kept: [song, jingle], dropped: [] });
+  });
+
+  it('drops non-music track types with the default rules', () => {
+    expect(applyRowFilters([song, jingle, news], DEFAULT_FILTER_RULES)).toEqual({ kept: [song], dropped: [jingle, news] });
+  });
+
+  it('needs a match with one include rule and no exclude rule', () => {
+    const rules = [
+      rule({ action: 'include', field: 'trackType', operator: 'equals', value: 'music' }),
+      rule({ action: 'include', field: 'trackType', operator: 'equals', value: 'news' }),
+      rule({ field: 'title', operator: 'startsWith', value: 'ȘTI' }),
+    ];
+    expect(applyRowFilters([song, jingle, news], rules).kept).toEqual([song]);
+  });
+
+  it('compares durations in seconds', () => {
+    const rules = [rule({ field: 'duration', operator: 'lessThan', value: '30' })];
+    expect(applyRowFilters([song, jingle], rules).kept).toEqual([song]);
+  });
+
+  it('ignores disabled rules and never matches an invalid regex', () => {
+    const rules = [
+      rule({ field: 'title', operator: 'contains', value: 'dragostea', enabled: false }),
+      rule({ field: 'title', operator: 'matches', value: '(' }),
+    ];
+    expect(applyRowFilters([song, jingle], rules).kept).toEqual([song, jingle]);
+  });
+});
@@ -0,0 +1,123 @@
+import type { ReportRow } from './excel-converter';
+
+/**
+ * Include/exclude rules deciding which logged items make it into the report.
+ * RadioDJ logs jingles, sweepers, ads and station IDs next to the music; the
+ * copyright report should only contain the music.
+ */
+
+export type FilterAction = 'include' | 'exclude';
+
+export type FilterField = 'artist' | 'title' | 'album' | 'trackType' | 'category' | 'duration';
+
+export type FilterOperator = 'contains' | 'equals' | 'startsWith' | 'matches' | 'lessThan' | 'greaterThan';
+
+export interface FilterRule {
+  id: string;
+  action: FilterAction;
+  field: FilterField;
+  operator: FilterOperator;
+  /** Text or regular expression; seconds for duration comparisons. */
+  value: string;
+  enabled: boolean;
+}
+
+export const FILTER_FIELDS: { value: FilterField; label: string }[] = [
+  { value: 'artist', label: 'Artist' },
+  { value: 'title', label: 'Title' },
+  { value: 'album', label: 'Album' },
+  { value: 'trackType', label: 'Track type' },
+  { value: 'category', label: 'Category' },
+  { value: 'duration', label: 'Duration (seconds)' }
+];
+
+export const FILTER_OPERATORS: { value: FilterOperator; label: string; numeric: boolean }[] = [
+  { value: 'contains', label: 'contains', numeric: false },
+  { value: 'equals', label: 'equals', numeric: false },
+  { value: 'startsWith', label: 'starts with', numeric: false },
+  { value: 'matches', label: 'matches regex', numeric: false },
+  { value: 'lessThan', label: 'is less than', numeric: true },
+  { value: 'greaterThan', label: 'is greater than', numeric: true }
+];
+
+/** Sensible starting rules for RadioDJ logs: drop everything that is not music. */
+export const DEFAULT_FILTER_RULES: FilterRule[] = [
+  { id: 'exclude-non-music', action: 'exclude', field: 'trackType', operator: 'matches', value: '^(jingle|sweeper|voice ?over|commercial|news|teaser)$', enabled: true },
+  { id: 'exclude-station-id', action: 'exclude', field: 'title', operator: 'matches', value: '\\b(station id|jingle|sweeper|promo)\\b', enabled: false },
+  { id: 'exclude-short', action: 'exclude', field: 'duration', operator: 'lessThan', value: '30', enabled: false }
+];
+
+export function createFilterRule(): FilterRule {
+  return {
+    id: `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    action: 'exclude',
+    field: 'title',
+    operator: 'contains',
+    value: '',
+    enabled: true
+  };
+}
+
+export interface FilterResult {
+  kept: ReportRow[];
+  dropped: ReportRow[];
+}
+
+function durationSeconds(row: ReportRow): number | null {
+  return typeof row.mins === 'number' && typeof row.secs === 'number' ? row.mins * 60 + row.secs : null;
+}
+
+/** Returns a predicate for one rule; an invalid regex never matches. */
+function compileRule(rule: FilterRule): (row: ReportRow) => boolean {
+  const { field } = rule;
+  const needle = rule.value.trim().toLocaleLowerCase('ro-RO');
+  if (field === 'duration' || rule.operator === 'lessThan' || rule.operator === 'greaterThan') {
+    const limit = Number(rule.value);
+    return row => {
+      const value = field === 'duration' ? durationSeconds(row) : Number(row[field]);
+      if (value === null || isNaN(value) || isNaN(limit)) return false;
+      if (rule.operator === 'lessThan') return value < limit;
+      if (rule.operator === 'greaterThan') return value > limit;
+      return value === limit;
+    };
+  }
+  let regex: RegExp | null = null;
+  if (rule.operator === 'matches') {
+    try {
+      regex = new RegExp(rule.value, 'i');
+    } catch {
+      return () => false;
+    }
+  }
+  return row => {
+    const text = String(row[field] ?? '').trim();
+    const value = text.toLocaleLowerCase('ro-RO');
+    switch (rule.operator) {
+      case 'contains': return value.includes(needle);
+      case 'equals': return value === needle;
+      case 'startsWith': return value.startsWith(needle);
+      case 'matches': return regex!.test(text);
+      default: return false;
+    }
+  };
+}
+
+/**
+ * Applies the enabled rules. When any include rule is enabled a row must
+ * match at least one of them; a row matching any exclude rule is dropped.
+ */
+export function applyRowFilters(rows: ReportRow[], rules: FilterRule[] = []): FilterResult {
+  const active = rules.filter(r => r.enabled);
+  if (!active.length) return { kept: rows, dropped: [] };
+  const includes = active.filter(r => r.action === 'include').map(compileRule);
+  const excludes = active.filter(r => r.action === 'exclude').map(compileRule);
+
+  const kept: ReportRow[] = [];
+  const dropped: ReportRow[] = [];
+  for (const row of rows) {
+    const included = !includes.length || includes.some(match => match(row));
+    const excluded = excludes.some(match => match(row));
+    (included && !excluded ? kept : dropped).push(row);
+  }
+  return { kept, dropped };
+}
@@ -0,0 +1,46 @@
+import { format } from 'date-fns';
+import { SHEET_NAME, type ReportRow, type ReportSheet } from './excel-converter';
+
+/**
+ * How a report is split into worksheets:
+ * - `single`: every play on one sheet
+ * - `day`: a sheet per broadcast day, named `2026-09-14`
+ * - `week`: a sheet per ISO week, named `2026-W38`
+ * - `month`: a sheet per month, named `2026-09`
+ */
+export type SheetGrouping = 'single' | 'day' | 'week' | 'month';
+
+export const SHEET_GROUPINGS: { value: SheetGrouping; label: string }[] = [
+  { value: 'single', label: 'Single sheet' },
+  { value: 'day', label: 'One sheet per day' },
+  { value: 'week', label: 'One sheet per ISO week' },
+  { value: 'month', label: 'One sheet per month' }
+];
+
+/** Sheet for rows whose date did not parse. */
+export const UNDATED_SHEET_NAME = 'FARA DATA';
+
+const GROUP_KEY_FORMATS: Record<Exclude<SheetGrouping, 'single'>, string> = {
+  day: 'yyyy-MM-dd',
+  week: "RRRR-'W'II",
+  month: 'yyyy-MM'
+};
+
+/**
+ * Splits rows into sheets by play date. Sheets are in chronological order
+ * with undated rows last; rows keep their order within a sheet.
+ */
+export function groupReportRows(rows: ReportRow[], grouping: SheetGrouping = 'single'): ReportSheet[] {
+  if (grouping === 'single') return [{ name: SHEET_NAME, rows }];
+  const groups = new Map<string, ReportRow[]>();
+  for (const row of rows) {
+    const key = row.dateVal instanceof Date ? format(row.dateVal, GROUP_KEY_FORMATS[grouping]) : UNDATED_SHEET_NAME;
+    const group = groups.get(key);
+    if (group) group.push(row);
+    else groups.set(key, [row]);
+  }
+  // The keys sort chronologically as text
+  const keys = Array.from(groups.keys()).filter(k => k !== UNDATED_SHEET_NAME).sort();
+  if (groups.has(UNDATED_SHEET_NAME)) keys.push(UNDATED_SHEET_NAME);
+  return keys.length ? keys.map(name => ({ name, rows: groups.get(name)! })) : [{ name: SHEET_NAME, rows }];
+}
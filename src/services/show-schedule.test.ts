@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { createBlankReportRow } from './report-editing';
+import { EMPTY_SCHEDULE, assignShows, findShow, toMinutes, validateSchedule, type ShowSchedule } from './show-schedule';
+
+const schedule: ShowSchedule = {
+  slots: [
+    { id: 's1', weekday: 1, start: '06:00', end: '10:00', show: 'Matinal' },
+    { id: 's2', weekday: 5, start: '22:00', end: '02:00', show: 'Club Night' },
+  ],
+  overrides: [{ id: 'o1', date: '2024-01-01', start: '06:00', end: '08:00', show: 'New Year Special' }],
+};
+
+describe('toMinutes', () => {
+  it('reads HH:mm up to 24:00', () => {
+    expect(toMinutes('06:30')).toBe(390);
+    expect(toMinutes('24:00')).toBe(1440);
+    expect(toMinutes('24:30')).toBeNull();
+    expect(toMinutes('6.30')).toBeNull();
+  });
+});
+
+describe('findShow', () => {
+  it('finds the weekly slot on air', () => {
+    expect(findShow(schedule, new Date(2024, 0, 8, 9, 59))).toBe('Matinal');
+    expect(findShow(schedule, new Date(2024, 0, 8, 10, 0))).toBe('');
+  });
+
+  it('follows a slot past midnight into the next day', () => {
+    expect(findShow(schedule, new Date(2024, 0, 5, 23, 0))).toBe('Club Night');
+    expect(findShow(schedule, new Date(2024, 0, 6, 1, 30))).toBe('Club Night');
+  });
+
+  it('prefers a special on its date', () => {
+    expect(findShow(schedule, new Date(2024, 0, 1, 7, 0))).toBe('New Year Special');
+    expect(findShow(schedule, new Date(2024, 0, 1, 9, 0))).toBe('Matinal');
+  });
+});
+
+describe('assignShows', () => {
+  it('fills the show only for rows with a parsed date and time', () => {
+    const timed = { ...createBlankReportRow(2), dateVal: new Date(2024, 0, 8), timeVal: new Date(1899, 11, 30, 7, 0) };
+    const untimed = { ...createBlankReportRow(3), dateVal: new Date(2024, 0, 8), timeVal: '7?' };
+    expect(assignShows([timed, untimed], schedule).map(r => r.show)).toEqual(['Matinal', '']);
+  });
+
+  it('leaves the rows alone without a schedule', () => {
+    const rows = [createBlankReportRow(2)];
+    expect(assignShows(rows, EMPTY_SCHEDULE)).toBe(rows);
+  });
+});
+
+describe('validateSchedule', () => {
+  it('accepts a usable schedule', () => {
+    expect(validateSchedule(schedule)).toEqual([]);
+  });
+
+  it('reports malformed times, names and dates', () => {
+    expect(validateSchedule({
+      slots: [{ id: 's', weekday: 1, start: '6', end: '10:00', show: ' ' }],
+      overrides: [{ id: 'o', date: '01.01.2024', start: '06:00', end: '08:00', show: 'Special' }],
+    })).toEqual([
+      'Slot 1: times must be HH:mm.',
+      'Slot 1: show name is required.',
+      'Special 1: date must be yyyy-MM-dd.',
+    ]);
+  });
+
+  it('reports malformed slots instead of failing on them', () => {
+    expect(validateSchedule({ slots: [{}, null], overrides: [] } as never)).toEqual([
+      'Slot 1: times must be HH:mm.',
+      'Slot 1: show name is required.',
+      'Slot 1: weekday must be 1 (Monday) to 7 (Sunday).',
+      'Slot 2 must be an object.',
+    ]);
+    expect(validateSchedule({ slots: [] } as never)).toEqual(['Schedule needs "slots" and "overrides" arrays.']);
+  });
+});
@@ -0,0 +1,148 @@
+import { addDays, format, getISODay } from 'date-fns';
+import { playedAt, type ReportRow } from './excel-converter';
+
+/**
+ * Weekly programme grid used to fill the show name ("NUMELE EMISIUNII")
+ * from each play's date and time. A slot whose end is not after its start
+ * runs past midnight into the next day.
+ */
+
+/** ISO weekday: 1 = Monday … 7 = Sunday. */
+export type Weekday = 1 | 2 | 3 | 4 | 5 | 6 | 7;
+
+export const WEEKDAYS: { value: Weekday; label: string }[] = [
+  { value: 1, label: 'Monday' },
+  { value: 2, label: 'Tuesday' },
+  { value: 3, label: 'Wednesday' },
+  { value: 4, label: 'Thursday' },
+  { value: 5, label: 'Friday' },
+  { value: 6, label: 'Saturday' },
+  { value: 7, label: 'Sunday' }
+];
+
+export interface ScheduleSlot {
+  id: string;
+  weekday: Weekday;
+  /** `HH:mm` */
+  start: string;
+  /** `HH:mm`; at or before `start` when the show crosses midnight. */
+  end: string;
+  show: string;
+}
+
+/** A one-off slot for a specific date (specials), taking precedence over the weekly grid. */
+export interface ScheduleOverride {
+  id: string;
+  /** `yyyy-MM-dd` */
+  date: string;
+  start: string;
+  end: string;
+  show: string;
+}
+
+export interface ShowSchedule {
+  slots: ScheduleSlot[];
+  overrides: ScheduleOverride[];
+}
+
+export const EMPTY_SCHEDULE: ShowSchedule = { slots: [], overrides: [] };
+
+const TIME_PATTERN = /^([01]?\d|2[0-4]):([0-5]\d)$/;
+
+/** Minutes since midnight for an `HH:mm` string, or `null` when malformed. */
+export function toMinutes(time: string): number | null {
+  const match = TIME_PATTERN.exec(time.trim());
+  if (!match) return null;
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return minutes <= 24 * 60 ? minutes : null;
+}
+
+interface Span {
+  start: number;
+  end: number;
+  show: string;
+}
+
+function toSpan(slot: { start: string; end: string; show: string }): Span | null {
+  const start = toMinutes(slot.start);
+  const end = toMinutes(slot.end);
+  if (start === null || end === null || !slot.show.trim()) return null;
+  return { start, end, show: slot.show.trim() };
+}
+
+const crossesMidnight = (span: Span) => span.end <= span.start;
+
+/** Show from spans starting on the play's own day, then spans spilling over from the day before. */
+function matchSpans(today: Span[], yesterday: Span[], minute: number): string | null {
+  for (const span of today) {
+    if (minute >= span.start && (crossesMidnight(span) || minute < span.end)) return span.show;
+  }
+  for (const span of yesterday) {
+    if (crossesMidnight(span) && minute < span.end) return span.show;
+  }
+  return null;
+}
+
+/**
+ * Finds the show on air at a given moment; date-specific overrides win over
+ * the weekly grid. Returns an empty string when nothing is scheduled.
+ */
+export function findShow(schedule: ShowSchedule, at: Date): string {
+  const minute = at.getHours() * 60 + at.getMinutes();
+  const previous = addDays(at, -1);
+
+  const overridesOn = (day: Date) => {
+    const date = format(day, 'yyyy-MM-dd');
+    return schedule.overrides.filter(o => o.date === date).map(toSpan).filter((s): s is Span => !!s);
+  };
+  const special = matchSpans(overridesOn(at), overridesOn(previous), minute);
+  if (special) return special;
+
+  const slotsOn = (day: Date) => {
+    const weekday = getISODay(day);
+    return schedule.slots.filter(s => s.weekday === weekday).map(toSpan).filter((s): s is Span => !!s);
+  };
+  return matchSpans(slotsOn(at), slotsOn(previous), minute) ?? '';
+}
+
+/** Returns rows with the show name filled in from the schedule; rows without a parsed date are left blank. */
+export function assignShows(rows: ReportRow[], schedule: ShowSchedule): ReportRow[] {
+  if (!schedule.slots.length && !schedule.overrides.length) return rows;
+  return rows.map(row => {
+    const at = playedAt(row);
+    return at && row.timeVal instanceof Date ? { ...row, show: findShow(schedule, at) } : row;
+  });
+}
+
+/**
+ * Human-readable problems with the schedule; empty when usable. Checks the
+ * shape of every slot too, as schedules sent to the API or given to the CLI
+ * as JSON may have any shape.
+ */
+export function validateSchedule(schedule: ShowSchedule): string[] {
+  if (!schedule || !Array.isArray(schedule.slots) || !Array.isArray(schedule.overrides)) {
+    return ['Schedule needs "slots" and "overrides" arrays.'];
+  }
+  const problems: string[] = [];
+  const check = (label: string, slot: Partial<ScheduleOverride & ScheduleSlot> | null) => {
+    if (typeof slot !== 'object' || slot === null) {
+      problems.push(`${label} must be an object.`);
+      return false;
+    }
+    const isTime = (time: unknown) => typeof time === 'string' && toMinutes(time) !== null;
+    if (!isTime(slot.start) || !isTime(slot.end)) problems.push(`${label}: times must be HH:mm.`);
+    if (typeof slot.show !== 'string' || !slot.show.trim()) problems.push(`${label}: show name is required.`);
+    return true;
+  };
+  schedule.slots.forEach((s, i) => {
+    if (check(`Slot ${i + 1}`, s) && !WEEKDAYS.some(d => d.value === s.weekday)) {
+      problems.push(`Slot ${i + 1}: weekday must be 1 (Monday) to 7 (Sunday).`);
+    }
+  });
+  schedule.overrides.forEach((o, i) => {
+    if (check(`Special ${i + 1}`, o) && !(typeof o.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(o.date))) {
+      problems.push(`Special ${i + 1}: date must be yyyy-MM-dd.`);
+    }
+  });
+  return problems;
+}
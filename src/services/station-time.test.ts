@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import type { ReportRow } from './excel-converter';
+import { createBlankReportRow } from './report-editing';
+import { assignUtcOffsets, checkTimeZone, formatOffset, playedInstant, wallClockOffsets } from './station-time';
+
+const play = (day: number, month: number, hours: number, minutes: number, sourceFile?: string): ReportRow => ({
+  ...createBlankReportRow(2, sourceFile),
+  dateVal: new Date(2024, month - 1, day),
+  timeVal: new Date(1899, 11, 30, hours, minutes),
+});
+
+describe('wallClockOffsets', () => {
+  it('gives one offset normally, two in the repeated hour and none in the skipped one', () => {
+    expect(wallClockOffsets('Europe/Bucharest', Date.UTC(2024, 6, 1, 12))).toEqual([180]);
+    expect(wallClockOffsets('Europe/Bucharest', Date.UTC(2024, 9, 27, 3, 30))).toEqual([180, 120]);
+    expect(wallClockOffsets('Europe/Bucharest', Date.UTC(2024, 2, 31, 3, 30))).toEqual([]);
+  });
+});
+
+describe('assignUtcOffsets', () => {
+  it('tells the two passes of the repeated hour apart by file order', () => {
+    const rows = assignUtcOffsets([play(27, 10, 3, 10), play(27, 10, 3, 50), play(27, 10, 3, 5), play(27, 10, 4, 0)]);
+    expect(rows.map(r => [r.utcOffset, r.dstTransition])).toEqual([
+      [180, 'repeated'], [180, 'repeated'], [120, 'repeated'], [120, undefined],
+    ]);
+  });
+
+  it('reads files listing the newest plays first the other way', () => {
+    const rows = assignUtcOffsets([play(27, 10, 4, 0), play(27, 10, 3, 5), play(27, 10, 3, 50), play(27, 10, 3, 10)]);
+    expect(rows.map(r => r.utcOffset)).toEqual([120, 120, 180, 180]);
+  });
+
+  it('marks times in the skipped hour and keeps the offset before the change', () => {
+    const [row] = assignUtcOffsets([play(31, 3, 3, 30)]);
+    expect([row.utcOffset, row.dstTransition]).toEqual([120, 'skipped']);
+  });
+
+  it('orders the plays of merged files by the moment they were played', () => {
+    const rows = assignUtcOffsets([play(27, 10, 3, 50, 'a.csv'), play(27, 10, 3, 10, 'b.csv'), play(27, 10, 3, 20, 'b.csv')]);
+    expect(rows.map(r => r.utcOffset)).toEqual([180, 180, 180]);
+    expect(playedInstant(rows[0])! - playedInstant(rows[1])!).toBe(40 * 60000);
+  });
+
+  it('refuses unknown time zones', () => {
+    expect(() => checkTimeZone('Mars/Olympus')).toThrow(/Unknown time zone/);
+    expect(() => assignUtcOffsets([], 'Mars/Olympus')).toThrow(/Unknown time zone/);
+  });
+});
+
+describe('formatOffset', () => {
+  it('writes hours and minutes with a sign', () => {
+    expect(formatOffset(180)).toBe('+03:00');
+    expect(formatOffset(-210)).toBe('-03:30');
+  });
+});
@@ -0,0 +1,147 @@
+import { format } from 'date-fns';
+import type { ReportRow } from './excel-converter';
+import { ConversionError } from './conversion-error';
+
+/**
+ * RadioDJ logs plays in the station's wall-clock time without a UTC offset.
+ * The report keeps that wall-clock time as logged; the station's time zone
+ * is used to find the actual moment of each play, so merged files sort
+ * correctly across daylight saving changes. When clocks go back, the hour
+ * before the change is logged twice and the order of the plays tells which
+ * pass a time belongs to; when clocks go forward, an hour is skipped and
+ * times logged inside it are taken as not yet moved forward. Both kinds of
+ * row are marked so validation can warn about them.
+ */
+
+export const DEFAULT_TIME_ZONE = 'Europe/Bucharest';
+
+/** Time zones offered in the app; any IANA zone is accepted from the API and CLI. */
+export const STATION_TIME_ZONES = [
+  'Europe/Bucharest', 'Europe/Chisinau', 'Europe/Athens', 'Europe/Sofia', 'Europe/Kyiv', 'Europe/Budapest',
+  'Europe/Vienna', 'Europe/Berlin', 'Europe/Rome', 'Europe/Madrid', 'Europe/Paris', 'Europe/London', 'UTC'
+];
+
+/** How a play's wall-clock time relates to a daylight saving change. */
+export type DstTransition = 'repeated' | 'skipped';
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/** Throws `INVALID_OPTION` unless the name is an IANA time zone known to the runtime. */
+export function checkTimeZone(timeZone: string): string {
+  try {
+    formatterFor(timeZone);
+    return timeZone;
+  } catch {
+    throw new ConversionError('INVALID_OPTION', `Unknown time zone "${timeZone}".`);
+  }
+}
+
+/** Minutes the zone is ahead of UTC at a moment, e.g. 180 for Bucharest in summer. */
+export function zoneOffset(timeZone: string, instant: number): number {
+  const parts: Record<string, number> = {};
+  for (const { type, value } of formatterFor(timeZone).formatToParts(new Date(instant))) parts[type] = Number(value);
+  const wall = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((wall - Math.floor(instant / 1000) * 1000) / 60000);
+}
+
+/**
+ * The UTC offsets a wall-clock time can have in the zone: one normally, two
+ * in the hour repeated when clocks go back (earlier offset first), none in
+ * the hour skipped when they go forward.
+ *
+ * @param wall The wall-clock time as if it were UTC.
+ */
+export function wallClockOffsets(timeZone: string, wall: number): number[] {
+  // No zone changes its offset twice within a day
+  const around = [zoneOffset(timeZone, wall - 86400000), zoneOffset(timeZone, wall + 86400000)];
+  const offsets = Array.from(new Set(around)).filter(offset => zoneOffset(timeZone, wall - offset * 60000) === offset);
+  return offsets.sort((a, b) => b - a);
+}
+
+/** The wall-clock date and time of a row as if it were UTC; `null` unless both parsed. */
+function wallClock(row: ReportRow): number | null {
+  if (!(row.dateVal instanceof Date) || !(row.timeVal instanceof Date)) return null;
+  const d = row.dateVal;
+  const t = row.timeVal;
+  return Date.UTC(d.getFullYear(), d.getMonth(), d.getDate(), t.getHours(), t.getMinutes(), t.getSeconds());
+}
+
+/**
+ * The moment a row was played, in milliseconds since the epoch. Falls back to
+ * the runtime's time zone for rows without a UTC offset.
+ */
+export function playedInstant(row: ReportRow): number | null {
+  const wall = wallClock(row);
+  if (wall !== null && typeof row.utcOffset === 'number') return wall - row.utcOffset * 60000;
+  if (!(row.dateVal instanceof Date)) return null;
+  const at = new Date(row.dateVal);
+  if (row.timeVal instanceof Date) at.setHours(row.timeVal.getHours(), row.timeVal.getMinutes(), row.timeVal.getSeconds(), 0);
+  return at.getTime();
+}
+
+/** "+03:00" style offset. */
+export function formatOffset(minutes: number): string {
+  const abs = Math.abs(minutes);
+  return `${minutes < 0 ? '-' : '+'}${String(Math.floor(abs / 60)).padStart(2, '0')}:${String(abs % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Sets the UTC offset of each play from the station's time zone. Plays in
+ * the repeated hour are told apart by the order of their file: once the
+ * times run backwards inside that hour, the clocks have gone back. Files
+ * listing the newest plays first are recognized and read the other way.
+ * Must run before rows are filtered or reordered.
+ */
+export function assignUtcOffsets(rows: ReportRow[], timeZone: string = DEFAULT_TIME_ZONE): ReportRow[] {
+  checkTimeZone(timeZone);
+  const walls = rows.map(wallClock);
+  const byFile = new Map<string, number[]>();
+  rows.forEach((row, i) => {
+    const indexes = byFile.get(row.sourceFile ?? '') ?? [];
+    indexes.push(i);
+    byFile.set(row.sourceFile ?? '', indexes);
+  });
+
+  const result = rows.slice();
+  for (const indexes of byFile.values()) {
+    const dated = indexes.filter(i => walls[i] !== null);
+    // Most steps between neighbouring plays go back in time when the newest come first
+    const steps = dated.slice(1).map((i, n) => Math.sign(walls[i]! - walls[dated[n]]!));
+    const newestFirst = steps.reduce((sum, step) => sum + step, 0) < 0;
+    const order = newestFirst ? dated.slice().reverse() : dated;
+    // Per changeover day: the last repeated time seen, and whether the second pass has begun
+    const passes = new Map<string, { last: number; second: boolean }>();
+
+    for (const i of order) {
+      const wall = walls[i]!;
+      const offsets = wallClockOffsets(timeZone, wall);
+      if (offsets.length === 1) {
+        result[i] = { ...rows[i], utcOffset: offsets[0], dstTransition: undefined };
+      } else if (!offsets.length) {
+        // Logged by a clock that had not moved forward yet
+        result[i] = { ...rows[i], utcOffset: zoneOffset(timeZone, wall - 86400000), dstTransition: 'skipped' };
+      } else {
+        const day = format(rows[i].dateVal as Date, 'yyyy-MM-dd');
+        const pass = passes.get(day) ?? { last: wall, second: false };
+        if (wall < pass.last) pass.second = true;
+        pass.last = wall;
+        passes.set(day, pass);
+        result[i] = { ...rows[i], utcOffset: offsets[pass.second ? 1 : 0], dstTransition: 'repeated' };
+      }
+    }
+  }
+  return result;
+}
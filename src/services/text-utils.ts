@@ -0,0 +1,18 @@
+/**
+ * Text helpers shared by the services that match names and credits written
+ * in different ways, with or without Romanian diacritics.
+ */
+
+/** Escapes regular expression syntax so `text` matches literally. */
+export const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Drops diacritics, e.g. "Ștefan Bănică" to "Stefan Banica". */
+export const removeDiacritics = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+/** Lowercase, without diacritics, punctuation or repeated spaces. */
+export function normalizeText(text: string): string {
+  return removeDiacritics(text)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
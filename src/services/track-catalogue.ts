@@ -0,0 +1,217 @@
+import type { ReportRow } from './excel-converter';
+import type { ReportField } from './mapping-profiles';
+import {
+  MATCH_THRESHOLD, canonicalTrack, createTrackMatcher,
+  type MatchDecision, type MatchSuggestion, type TrackMatcher,
+} from './fuzzy-match';
+import { normalizeText } from './text-utils';
+
+/**
+ * Local catalogue of track metadata the RadioDJ export does not carry
+ * (catalogue number, label, country, orchestra/group, recording type) or
+ * often leaves blank (music and lyrics authors).
+ * Entries are matched to plays by ISRC when both have one, otherwise by
+ * artist and title, allowing for spelling variants (see `fuzzy-match`), and
+ * fill in the report rows during conversion.
+ */
+
+/** Metadata the catalogue stores per track. */
+export type CatalogueField =
+  | 'catalogNumber'
+  | 'label'
+  | 'country'
+  | 'ensemble'
+  | 'recordingType'
+  | 'composer'
+  | 'lyricist';
+
+/** Catalogue fields with the report row field each one fills. */
+export const CATALOGUE_FIELDS: { field: CatalogueField; target: ReportField; label: string }[] = [
+  { field: 'catalogNumber', target: 'catalogNumber', label: 'Catalogue number' },
+  { field: 'label', target: 'label', label: 'Label' },
+  { field: 'country', target: 'country', label: 'Country' },
+  { field: 'ensemble', target: 'ensemble', label: 'Orchestra / group' },
+  { field: 'recordingType', target: 'recordingType', label: 'Recording type' },
+  { field: 'composer', target: 'musicAuthor', label: 'Composer' },
+  { field: 'lyricist', target: 'lyricsAuthor', label: 'Lyricist' }
+];
+
+export interface CatalogueEntry extends Record<CatalogueField, string> {
+  id: string;
+  artist: string;
+  title: string;
+  /** Optional; takes precedence over artist and title when matching. */
+  isrc: string;
+  updatedAt: string;
+}
+
+/**
+ * Matching key for an artist and title, ignoring case, diacritics,
+ * punctuation, credit order and version suffixes such as "(Radio Edit)".
+ */
+export function catalogueKey(artist: string, title: string): string {
+  return canonicalTrack({ artist, title }).key;
+}
+
+/** ISRC without separators, uppercased; empty when missing. */
+export function normalizeIsrc(isrc: string): string {
+  return isrc.replace(/[^a-z0-9]/gi, '').toUpperCase();
+}
+
+const newId = () => `track-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** A new catalogue entry for a track, with the catalogue fields blank. */
+export function createCatalogueEntry(artist = '', title = '', isrc = ''): CatalogueEntry {
+  return {
+    id: newId(),
+    artist,
+    title,
+    isrc,
+    catalogNumber: '',
+    label: '',
+    country: '',
+    ensemble: '',
+    recordingType: '',
+    composer: '',
+    lyricist: '',
+    updatedAt: new Date().toISOString()
+  };
+}
+
+export interface CatalogueIndex {
+  byIsrc: Map<string, CatalogueEntry>;
+  byName: TrackMatcher<CatalogueEntry>;
+}
+
+/** Adds an entry to the lookup tables, taking precedence over earlier duplicates. */
+export function addToCatalogueIndex(index: CatalogueIndex, entry: CatalogueEntry) {
+  const isrc = normalizeIsrc(entry.isrc);
+  if (isrc) index.byIsrc.set(isrc, entry);
+  index.byName.add(entry);
+}
+
+/**
+ * Lookup tables for matching; later entries win over earlier duplicates.
+ *
+ * @param decisions Confirmed and rejected matches from the review screen.
+ */
+export function indexCatalogue(entries: CatalogueEntry[], decisions: MatchDecision[] = []): CatalogueIndex {
+  const index: CatalogueIndex = { byIsrc: new Map(), byName: createTrackMatcher([], decisions) };
+  for (const entry of entries) addToCatalogueIndex(index, entry);
+  return index;
+}
+
+type TrackRef = Pick<ReportRow, 'artist' | 'title' | 'isrc'>;
+
+/**
+ * The catalogue entry for a play, or `undefined` when the track is not
+ * catalogued or only resembles a catalogued track too loosely to be sure.
+ */
+export function findCatalogueEntry(index: CatalogueIndex, row: TrackRef) {
+  const isrc = normalizeIsrc(row.isrc);
+  const byIsrc = isrc && index.byIsrc.get(isrc);
+  if (byIsrc) return byIsrc;
+  const match = index.byName.find(row);
+  return match && match.score >= MATCH_THRESHOLD ? match.candidate : undefined;
+}
+
+/**
+ * Fills the catalogue fields of each row from its catalogue entry. Values
+ * already present on a row (e.g. a label from the RadioDJ database) are kept.
+ * Entries saved before a field existed simply lack it.
+ */
+export function enrichRows(rows: ReportRow[], entries: CatalogueEntry[], decisions: MatchDecision[] = []): ReportRow[] {
+  if (!entries.length) return rows;
+  const index = indexCatalogue(entries, decisions);
+  // Plays repeat; look each track up once
+  const found = new Map<string, CatalogueEntry | undefined>();
+  return rows.map(row => {
+    const key = `${normalizeIsrc(row.isrc)}\u0000${row.artist}\u0000${row.title}`;
+    if (!found.has(key)) found.set(key, findCatalogueEntry(index, row));
+    const entry = found.get(key);
+    if (!entry) return row;
+    const next = { ...row };
+    for (const { field, target } of CATALOGUE_FIELDS) {
+      const value = entry[field]?.trim();
+      if (value && !String(next[target] ?? '').trim()) next[target] = value;
+    }
+    return next;
+  });
+}
+
+/**
+ * Entries for the tracks in the rows that are not catalogued yet, one per
+ * track, so their metadata only has to be typed once.
+ */
+export function uncataloguedTracks(rows: ReportRow[], entries: CatalogueEntry[]): CatalogueEntry[] {
+  const index = indexCatalogue(entries);
+  const added = new Map<string, CatalogueEntry>();
+  for (const row of rows) {
+    const key = catalogueKey(row.artist, row.title);
+    if (!normalizeText(row.title) || added.has(key) || findCatalogueEntry(index, row)) continue;
+    added.set(key, createCatalogueEntry(row.artist.trim(), row.title.trim(), row.isrc));
+  }
+  return Array.from(added.values());
+}
+
+/**
+ * Plays whose closest catalogue entry is too uncertain a match to fill them
+ * in, one per track, for confirmation on the review screen.
+ */
+export function uncertainCatalogueMatches(
+  rows: ReportRow[],
+  entries: CatalogueEntry[],
+  decisions: MatchDecision[] = []
+): MatchSuggestion[] {
+  const index = indexCatalogue(entries, decisions);
+  const suggestions = new Map<string, MatchSuggestion>();
+  // Plays repeat; look each track up once
+  const checked = new Set<string>();
+  for (const row of rows) {
+    if (normalizeIsrc(row.isrc) && index.byIsrc.has(normalizeIsrc(row.isrc))) continue;
+    const key = catalogueKey(row.artist, row.title);
+    if (checked.has(key)) continue;
+    checked.add(key);
+    const match = index.byName.find(row);
+    if (!match || match.score >= MATCH_THRESHOLD) continue;
+    suggestions.set(key, {
+      variant: { artist: row.artist, title: row.title, key },
+      target: { artist: match.candidate.artist, title: match.candidate.title, key: match.key },
+      score: match.score
+    });
+  }
+  return Array.from(suggestions.values());
+}
+
+/**
+ * Problems with catalogue entries, such as entries without a title. Checks
+ * the shape of every entry too, as catalogues sent to the API or given to
+ * the CLI as JSON may have any shape.
+ */
+export function validateCatalogue(entries: CatalogueEntry[]): string[] {
+  if (!Array.isArray(entries)) return ['The catalogue must be an array of tracks.'];
+  const problems: string[] = [];
+  const keys = new Map<string, number>();
+  entries.forEach((entry, i) => {
+    if (typeof entry !== 'object' || entry === null) {
+      problems.push(`Entry ${i + 1} must be an object.`);
+      return;
+    }
+    if ([entry.artist, entry.title, entry.isrc].some(value => typeof value !== 'string')) {
+      problems.push(`Entry ${i + 1}: artist, title and ISRC must be text.`);
+      return;
+    }
+    // Entries saved before a field existed lack it
+    const malformed = CATALOGUE_FIELDS.filter(({ field }) => entry[field] !== undefined && typeof entry[field] !== 'string');
+    if (malformed.length) problems.push(`Entry ${i + 1}: ${malformed.map(f => f.label).join(', ')} must be text.`);
+    if (!normalizeText(entry.title) && !normalizeIsrc(entry.isrc)) {
+      problems.push(`Entry ${i + 1}: a title or ISRC is required.`);
+      return;
+    }
+    const key = normalizeIsrc(entry.isrc) || catalogueKey(entry.artist, entry.title);
+    const first = keys.get(key);
+    if (first !== undefined) problems.push(`Entry ${i + 1}: same track as entry ${first + 1}.`);
+    else keys.set(key, i);
+  });
+  return problems;
+}
@@ -0,0 +1,20 @@
+import { runReportJob, type ReportJob, type ReportWorkerMessage } from '@/services/report-jobs';
+
+/**
+ * Web Worker running report jobs off the page's main thread; see
+ * `use-report-worker.ts`. One job at a time: cancelling terminates the
+ * worker.
+ */
+
+// The project is typed for the DOM; a worker's global scope posts messages like a Worker does
+const scope = self as unknown as Worker;
+const post = (message: ReportWorkerMessage) => scope.postMessage(message);
+
+scope.addEventListener('message', (event: MessageEvent<ReportJob>) => {
+  try {
+    const result = runReportJob(event.data, progress => post({ type: 'progress', progress }));
+    post({ type: 'done', result });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+});